@@ -7,6 +7,7 @@ import '@matterlabs/hardhat-zksync-deploy'
 import '@matterlabs/hardhat-zksync-solc'
 import '@matterlabs/hardhat-zksync-verify'
 import 'solidity-coverage'
+import './tasks'
 
 // import 'hardhat-gas-reporter'
 // import 'hardhat-ethernal'
@@ -0,0 +1,113 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { ERC20_ABI } from './erc20'
+import { IndexedEvent } from './saleIndexer'
+
+// one purchase, as rebuilt from a PurchasedInTier event and its receipt
+export type LedgerPurchase = {
+  address: string
+  tierId: string
+  quantity: string
+  promoCode: string
+  amountPaid?: string // payment token transferred to the sale, undefined if not found
+  effectivePrice?: string // amountPaid / quantity, after any promo discount
+  transactionHash: string
+  blockNumber: number
+}
+
+// event-derived total of a buyer in a tier next to purchasedAmountPerTier
+export type LedgerBuyer = {
+  address: string
+  tierId: string
+  eventQuantity: string
+  onChainQuantity: string
+  mismatch: boolean
+}
+
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI)
+const TRANSFER_TOPIC = erc20Interface.getEventTopic('Transfer')
+
+// how many purchasedAmountPerTier calls are in flight at once
+const CALL_BATCH = 20
+
+/**
+ * Turns PurchasedInTier events into purchases with the amount actually paid.
+ * executePurchase transfers `amount * price` from the buyer right before
+ * emitting, so the paid amount is the closest preceding payment token
+ * Transfer from the buyer to the sale in the same receipt.
+ */
+export const buildLedgerPurchases = async (
+  sale: Contract,
+  events: IndexedEvent[]
+): Promise<LedgerPurchase[]> => {
+  const paymentToken = ((await sale.paymentToken()) as string).toLowerCase()
+  const saleAddress = sale.address.toLowerCase()
+  const receipts = new Map<string, ethers.providers.TransactionReceipt>()
+
+  const purchases: LedgerPurchase[] = []
+  for (const event of events.filter((e) => e.event === 'PurchasedInTier')) {
+    let receipt = receipts.get(event.transactionHash)
+    if (!receipt) {
+      receipt = await sale.provider.getTransactionReceipt(event.transactionHash)
+      receipts.set(event.transactionHash, receipt)
+    }
+
+    const buyer = (event.args.buyer as string).toLowerCase()
+    const payment = receipt.logs
+      .filter((log) => log.logIndex < event.logIndex)
+      .filter((log) => log.address.toLowerCase() === paymentToken && log.topics[0] === TRANSFER_TOPIC)
+      .map((log) => erc20Interface.parseLog(log))
+      .filter((log) => log.args.from.toLowerCase() === buyer && log.args.to.toLowerCase() === saleAddress)
+      .pop()
+
+    const quantity = BigNumber.from(event.args.amount)
+    purchases.push({
+      address: ethers.utils.getAddress(buyer),
+      tierId: event.args.tierId as string,
+      quantity: quantity.toString(),
+      promoCode: event.args.promoCode as string,
+      amountPaid: payment ? payment.args.value.toString() : undefined,
+      effectivePrice: payment ? payment.args.value.div(quantity).toString() : undefined,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    })
+  }
+  return purchases
+}
+
+/**
+ * Sums purchases per buyer and tier and compares them with
+ * purchasedAmountPerTier, read at `blockTag` so purchases past the last
+ * indexed block are not reported as mismatches.
+ */
+export const reconcileLedger = async (
+  sale: Contract,
+  purchases: LedgerPurchase[],
+  blockTag?: number
+): Promise<LedgerBuyer[]> => {
+  const totals = new Map<string, { address: string; tierId: string; quantity: BigNumber }>()
+  purchases.forEach((p) => {
+    const key = `${p.tierId}\n${p.address}`
+    const total = totals.get(key) || { address: p.address, tierId: p.tierId, quantity: BigNumber.from(0) }
+    total.quantity = total.quantity.add(p.quantity)
+    totals.set(key, total)
+  })
+
+  const buyers: LedgerBuyer[] = []
+  const list = Array.from(totals.values())
+  for (let i = 0; i < list.length; i += CALL_BATCH) {
+    const batch = list.slice(i, i + CALL_BATCH)
+    const onChain: BigNumber[] = await Promise.all(
+      batch.map((t) => sale.purchasedAmountPerTier(t.tierId, t.address, { blockTag }))
+    )
+    batch.forEach((t, j) => {
+      buyers.push({
+        address: t.address,
+        tierId: t.tierId,
+        eventQuantity: t.quantity.toString(),
+        onChainQuantity: onChain[j].toString(),
+        mismatch: !onChain[j].eq(t.quantity),
+      })
+    })
+  }
+  return buyers
+}
@@ -0,0 +1,104 @@
+import { ethers } from 'ethers'
+
+// hashes a packed leaf value the same way as test/merkleWhitelist.ts
+const hashItem = (item: string): string => {
+  return ethers.utils.keccak256('0x' + item.toLowerCase().replace(/^0x/, ''))
+}
+
+// hashes a sorted pair, as MerkleProof.verify does
+const hashPair = (a: string, b: string): string => {
+  const [left, right] = a <= b ? [a, b] : [b, a]
+  return ethers.utils.keccak256(left + right.replace(/^0x/, ''))
+}
+
+/**
+ * Merkle tree over packed leaf values that hashes once and keeps every level,
+ * so proofs are served in O(log n).
+ *
+ * Produces the same roots and proofs as computeMerkleRoot / computeMerkleProof
+ * in test/merkleWhitelist.ts: values are sorted, hashed, sorted pairwise (an
+ * equal pair collapses into a single leaf) and reduced with sorted pair hashing,
+ * an odd node being paired with itself.
+ */
+export class MerkleTree {
+  // levels[0] are the leaves, the last level holds the root
+  readonly levels: string[][]
+  // leaf hash => index in levels[0]
+  private readonly leafIndex = new Map<string, number>()
+
+  constructor(items: string[]) {
+    if (items.length === 0) {
+      throw new Error('Cannot build a merkle tree without leaves')
+    }
+
+    // sort and hash
+    const hashed = [...items].sort().map(hashItem)
+
+    // pairwise sort
+    const leaves: string[] = []
+    for (let i = 0; i < hashed.length; i += 2) {
+      const leaf1 = hashed[i]
+      const leaf2 = i + 1 < hashed.length ? hashed[i + 1] : leaf1
+      const [left, right] = leaf1 <= leaf2 ? [leaf1, leaf2] : [leaf2, leaf1]
+      leaves.push(left)
+      if (left !== right) leaves.push(right)
+    }
+    leaves.forEach((leaf, i) => {
+      if (!this.leafIndex.has(leaf)) this.leafIndex.set(leaf, i)
+    })
+
+    // reduce level by level
+    this.levels = [leaves]
+    let level = leaves
+    while (level.length > 1) {
+      const next: string[] = []
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(hashPair(level[i], i + 1 < level.length ? level[i + 1] : level[i]))
+      }
+      this.levels.push(next)
+      level = next
+    }
+  }
+
+  get root(): string {
+    return this.levels[this.levels.length - 1][0]
+  }
+
+  get leafCount(): number {
+    return this.levels[0].length
+  }
+
+  // index of a packed value among the leaves, -1 if it is not in the tree
+  indexOf(item: string): number {
+    const index = this.leafIndex.get(hashItem(item))
+    return index === undefined ? -1 : index
+  }
+
+  // proof of the leaf at `index`
+  getProof(index: number): string[] {
+    if (index < 0 || index >= this.leafCount) {
+      throw new Error(`Leaf index out of range: ${index}`)
+    }
+    const proof: string[] = []
+    let path = index
+    for (let depth = 0; depth < this.levels.length - 1; depth++) {
+      const level = this.levels[depth]
+      if (path % 2 === 1) {
+        proof.push(level[path - 1])
+      } else {
+        proof.push(path + 1 < level.length ? level[path + 1] : level[path])
+      }
+      path = Math.floor(path / 2)
+    }
+    return proof
+  }
+
+  // proof of a packed value
+  getProofByItem(item: string): string[] {
+    const index = this.indexOf(item)
+    if (index === -1) {
+      throw new Error(`Leaf not in tree: ${item}`)
+    }
+    return this.getProof(index)
+  }
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import { isWalletPromoCode } from './tieredSaleConfig'
+
+// no 0/O, 1/I/L, easy to read out and type
+export const DEFAULT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+export type PromoCodeGeneratorOptions = {
+  count: number
+  prefix?: string
+  alphabet?: string // used when no wordlist is given
+  length?: number // random characters after the prefix, default 8
+  wordlist?: string[] // builds codes from words instead of characters
+  words?: number // words per code, default 2
+  separator?: string // between prefix and words, default none
+  randomInt?: (max: number) => number // [0, max), crypto.randomInt by default
+}
+
+/**
+ * Generates `count` new promo codes. Codes are unique among themselves and
+ * against `taken` ignoring case, so no two codes differ only by case, and
+ * never 42 bytes long, which IFTieredSale would read as a wallet code.
+ */
+export const generatePromoCodes = (
+  options: PromoCodeGeneratorOptions,
+  taken: Iterable<string> = []
+): string[] => {
+  const randomInt = options.randomInt || ((max: number) => crypto.randomInt(max))
+  const prefix = options.prefix || ''
+  const separator = options.separator || ''
+  const alphabet = options.alphabet || DEFAULT_ALPHABET
+  const length = options.length ?? 8
+  const words = options.words ?? 2
+
+  if (options.wordlist && options.wordlist.length === 0) throw new Error('Wordlist is empty')
+  if (!options.wordlist && (alphabet.length === 0 || length <= 0)) {
+    throw new Error('Alphabet and length must not be empty')
+  }
+  // what alphabet codes start with, the separator only follows a prefix
+  const lead = prefix !== '' ? prefix + separator : ''
+  // with a single byte alphabet every code has the same length, so a wallet
+  // code length would only be noticed once the attempts run out
+  if (
+    !options.wordlist &&
+    Buffer.byteLength(alphabet) === alphabet.length &&
+    Buffer.byteLength(lead) + length === 42
+  ) {
+    throw new Error(
+      'Prefix, separator and length make 42 byte codes, which IFTieredSale reads as wallet codes, change the length'
+    )
+  }
+
+  const next = (): string => {
+    if (options.wordlist) {
+      const list = options.wordlist
+      const parts = Array.from({ length: words }, () => list[randomInt(list.length)])
+      return [prefix, ...parts].filter((p) => p !== '').join(separator)
+    }
+    const chars = Array.from({ length }, () => alphabet[randomInt(alphabet.length)])
+    return lead + chars.join('')
+  }
+
+  const used = new Set(Array.from(taken).map((c) => c.toLowerCase()))
+  const codes: string[] = []
+  // give up once collisions show the code space is nearly used up
+  const maxAttempts = options.count * 100
+  for (let attempt = 0; codes.length < options.count; attempt++) {
+    if (attempt >= maxAttempts) {
+      throw new Error(
+        `Only ${codes.length} of ${options.count} unique codes found, use a longer code or a bigger alphabet / wordlist`
+      )
+    }
+    const code = next()
+    if (isWalletPromoCode(code) || used.has(code.toLowerCase())) continue
+    used.add(code.toLowerCase())
+    codes.push(code)
+  }
+  return codes
+}
+
+// codes handed out so far, kept so codes not yet added on chain are not reused
+export const readCodeRegistry = (file: string): string[] => {
+  if (!fs.existsSync(file)) return []
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+export const appendCodeRegistry = (file: string, codes: string[]): void => {
+  fs.writeFileSync(file, JSON.stringify(readCodeRegistry(file).concat(codes), null, 2) + '\n')
+}
+
+// one word per line, blank lines and surrounding spaces ignored
+export const readWordlist = (file: string): string[] => {
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .map((w) => w.trim())
+    .filter((w) => w !== '')
+}
@@ -0,0 +1,164 @@
+import fs from 'fs'
+import path from 'path'
+import CsvParse from 'csv-parse/lib/sync'
+import { PromoCodeConfig, validatePromoCode } from './tieredSaleConfig'
+
+// a CSV row, parsed into addPromoCode arguments when possible
+export type PromoCodeImportRow = {
+  line: number
+  code: string
+  promo?: PromoCodeConfig
+  errors: string[]
+}
+
+export type PromoCodeImportStatus = 'added' | 'exists' | 'invalid' | 'failed'
+
+// one line of the result file
+export type PromoCodeImportResult = {
+  line: number
+  code: string
+  status: PromoCodeImportStatus
+  txHash: string
+  error: string
+}
+
+export type PromoCodeImportPlan = {
+  toAdd: { line: number; promo: PromoCodeConfig }[]
+  results: PromoCodeImportResult[] // rows that will not be sent, and why
+}
+
+// accepted header names for each column, first one is the canonical name
+const COLUMNS: Record<keyof PromoCodeConfig, string[]> = {
+  code: ['code', 'promocode'],
+  discountPercentage: ['discountpercentage', 'discount'],
+  promoCodeOwnerAddress: ['promocodeowneraddress', 'owner'],
+  masterOwnerAddress: ['masterowneraddress', 'masterowner', 'master'],
+  baseOwnerPercentageOverride: ['baseownerpercentageoverride', 'baseoverride'],
+  masterOwnerPercentageOverride: ['masterownerpercentageoverride', 'masteroverride'],
+}
+const COLUMN_ORDER = Object.keys(COLUMNS) as (keyof PromoCodeConfig)[]
+
+const parsePercentage = (value: string, name: string, errors: string[]): number => {
+  // empty overrides mean the contract default
+  if (value === '') {
+    if (name !== 'discount') return 0
+    errors.push('Missing discount')
+    return 0
+  }
+  if (!/^\d+$/.test(value)) {
+    errors.push(`Invalid ${name} ${value}`)
+    return 0
+  }
+  return parseInt(value)
+}
+
+/**
+ * Reads promo codes from a CSV of code, discount, owner, master owner,
+ * base override and master override. The header row is optional; without
+ * one the columns are taken in that order. Codes with surrounding spaces
+ * are rejected rather than trimmed, the spaces would be part of the code.
+ */
+export const readPromoCodeCsv = (file: string): PromoCodeImportRow[] => {
+  const records: string[][] = CsvParse(fs.readFileSync(file, 'utf8'), {
+    skip_empty_lines: true,
+    relax_column_count: true,
+  })
+  const first = records.length > 0 ? records[0].map((h) => h.trim().toLowerCase()) : []
+  const hasHeader = COLUMNS.code.includes(first[0])
+  const index = (field: keyof PromoCodeConfig) =>
+    hasHeader ? first.findIndex((h) => COLUMNS[field].includes(h)) : COLUMN_ORDER.indexOf(field)
+
+  return records.slice(hasHeader ? 1 : 0).map((record, i) => {
+    const value = (field: keyof PromoCodeConfig) => {
+      const column = index(field)
+      return column >= 0 && record[column] !== undefined ? record[column] : undefined
+    }
+    const trimmed = (field: keyof PromoCodeConfig) => (value(field) || '').trim()
+    const errors: string[] = []
+    const promo: PromoCodeConfig = {
+      code: value('code') || '',
+      discountPercentage: parsePercentage(trimmed('discountPercentage'), 'discount', errors),
+      promoCodeOwnerAddress: trimmed('promoCodeOwnerAddress'),
+      masterOwnerAddress: trimmed('masterOwnerAddress'),
+      baseOwnerPercentageOverride: parsePercentage(trimmed('baseOwnerPercentageOverride'), 'base override', errors),
+      masterOwnerPercentageOverride: parsePercentage(trimmed('masterOwnerPercentageOverride'), 'master override', errors),
+    }
+    if (promo.code !== promo.code.trim()) errors.push('Promo code has leading or trailing spaces')
+    errors.push(...validatePromoCode(promo))
+    return {
+      line: i + (hasHeader ? 2 : 1),
+      code: promo.code,
+      promo: errors.length === 0 ? promo : undefined,
+      errors,
+    }
+  })
+}
+
+/**
+ * Splits the rows into codes to add and rows to skip: invalid rows, codes
+ * repeated in the file and codes already in allPromoCodes. `previous` is the
+ * result file of an earlier run; codes it added keep their status and tx hash.
+ */
+export const planPromoCodeImport = (
+  rows: PromoCodeImportRow[],
+  existing: string[],
+  previous: PromoCodeImportResult[] = []
+): PromoCodeImportPlan => {
+  const onChain = new Set(existing)
+  const added = new Map(previous.filter((r) => r.status === 'added').map((r) => [r.code, r]))
+  const seen = new Set<string>()
+  const plan: PromoCodeImportPlan = { toAdd: [], results: [] }
+
+  rows.forEach((row) => {
+    const result = { line: row.line, code: row.code, txHash: '', error: '' }
+    if (seen.has(row.code)) {
+      plan.results.push({ ...result, status: 'invalid', error: 'Duplicate promo code in file' })
+    } else if (!row.promo) {
+      plan.results.push({ ...result, status: 'invalid', error: row.errors.join('; ') })
+    } else if (added.has(row.code) && onChain.has(row.code)) {
+      plan.results.push({ ...result, status: 'added', txHash: (added.get(row.code) as PromoCodeImportResult).txHash })
+    } else if (onChain.has(row.code)) {
+      plan.results.push({ ...result, status: 'exists' })
+    } else {
+      plan.toAdd.push({ line: row.line, promo: row.promo })
+    }
+    seen.add(row.code)
+  })
+  return plan
+}
+
+// results of an earlier run, empty when there is none
+export const readImportResults = (file: string): PromoCodeImportResult[] => {
+  if (!fs.existsSync(file)) return []
+  const records: Record<string, string>[] = CsvParse(fs.readFileSync(file, 'utf8'), {
+    columns: true,
+    skip_empty_lines: true,
+  })
+  return records.map((r) => ({
+    line: parseInt(r.line),
+    code: r.code,
+    status: r.status as PromoCodeImportStatus,
+    txHash: r.txHash,
+    error: r.error,
+  }))
+}
+
+// default result file next to the input, e.g. codes.csv -> codes.result.csv
+export const defaultResultFile = (file: string): string => {
+  const ext = path.extname(file)
+  return path.join(path.dirname(file), `${path.basename(file, ext)}.result.csv`)
+}
+
+// dry run summary
+export const formatImportPlan = (plan: PromoCodeImportPlan): string => {
+  const count = (status: PromoCodeImportStatus) => plan.results.filter((r) => r.status === status).length
+  const lines = [
+    `To add: ${plan.toAdd.length}`,
+    `Already on chain: ${count('exists') + count('added')}`,
+    `Invalid: ${count('invalid')}`,
+  ]
+  plan.results
+    .filter((r) => r.status === 'invalid')
+    .forEach((r) => lines.push(`  line ${r.line} ${JSON.stringify(r.code)}: ${r.error}`))
+  return lines.join('\n')
+}
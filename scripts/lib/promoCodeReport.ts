@@ -0,0 +1,114 @@
+import { BigNumber, Contract } from 'ethers'
+import { IndexedEvent } from './saleIndexer'
+import { isWalletPromoCode } from './tieredSaleConfig'
+
+export type PromoCodeType = 'named' | 'wallet'
+
+// a promo code with its on-chain accounting, amounts in payment token wei
+export type PromoCodeReportRow = {
+  code: string
+  type: PromoCodeType
+  discountPercentage: number
+  promoCodeOwnerAddress: string
+  masterOwnerAddress: string
+  baseOwnerPercentageOverride: number
+  masterOwnerPercentageOverride: number
+  totalPurchased: string
+  codePurchaseAmount: string
+  promoCodeOwnerEarnings: string // unclaimed
+  masterOwnerEarnings: string // unclaimed
+}
+
+// PromoCode struct as returned by promoCodes(code) and getAllPromoCodeInfo
+type PromoCodeInfo = {
+  discountPercentage: number
+  promoCodeOwnerAddress: string
+  masterOwnerAddress: string
+  promoCodeOwnerEarnings: BigNumber
+  masterOwnerEarnings: BigNumber
+  totalPurchased: BigNumber
+  baseOwnerPercentageOverride: number
+  masterOwnerPercentageOverride: number
+}
+
+export const DEFAULT_PAGE_SIZE = 100
+
+/**
+ * Reads allPromoCodes page by page. getAllPromoCodes writes page items at
+ * their global index, so it reverts for any page not starting at 0; those
+ * pages fall back to the allPromoCodes(i) getter.
+ */
+export const fetchPromoCodeNames = async (
+  sale: Contract,
+  pageSize = DEFAULT_PAGE_SIZE,
+  blockTag?: number
+): Promise<string[]> => {
+  const length = (await sale.getPromoCodeLength({ blockTag })).toNumber()
+  const codes: string[] = []
+  for (let from = 0; from < length; from += pageSize) {
+    const to = Math.min(from + pageSize, length)
+    let page: string[]
+    try {
+      page = await sale.getAllPromoCodes(from, to, { blockTag })
+    } catch (e) {
+      const indexes = Array.from({ length: to - from }, (_, i) => from + i)
+      page = await Promise.all(indexes.map((i) => sale.allPromoCodes(i, { blockTag })))
+    }
+    codes.push(...page)
+  }
+  return codes
+}
+
+// wallet promo codes are never listed in allPromoCodes, only purchases reveal them
+export const walletPromoCodesFromEvents = (events: IndexedEvent[]): string[] => {
+  const codes = new Set<string>()
+  events
+    .filter((e) => e.event === 'PurchasedInTier' && isWalletPromoCode(e.args.promoCode as string))
+    .forEach((e) => codes.add(e.args.promoCode as string))
+  return Array.from(codes)
+}
+
+/**
+ * Builds a report row for every named promo code, read with
+ * getAllPromoCodeInfo in pages, and for the given wallet promo codes.
+ * Wallet codes have no discount of their own, their row shows the current
+ * addressPromoCodeDiscountPercentage. Everything is read at `blockTag`,
+ * the latest block when not given.
+ */
+export const fetchPromoCodeReport = async (
+  sale: Contract,
+  options: { pageSize?: number; walletCodes?: string[]; blockTag?: number } = {}
+): Promise<PromoCodeReportRow[]> => {
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+  const { blockTag } = options
+  const names = await fetchPromoCodeNames(sale, pageSize, blockTag)
+
+  const infos: PromoCodeInfo[] = []
+  for (let from = 0; from < names.length; from += pageSize) {
+    infos.push(...(await sale.getAllPromoCodeInfo(from, Math.min(from + pageSize, names.length), { blockTag })))
+  }
+
+  const walletCodes = options.walletCodes || []
+  const walletInfos: PromoCodeInfo[] = await Promise.all(walletCodes.map((code) => sale.promoCodes(code, { blockTag })))
+  const walletDiscount: number = walletCodes.length > 0 ? await sale.addressPromoCodeDiscountPercentage({ blockTag }) : 0
+
+  const codes = names.concat(walletCodes)
+  const purchaseAmounts: BigNumber[] = await Promise.all(codes.map((code) => sale.codePurchaseAmount(code, { blockTag })))
+
+  return infos.concat(walletInfos).map((info, i) => {
+    const type: PromoCodeType = isWalletPromoCode(codes[i]) ? 'wallet' : 'named'
+    return {
+      code: codes[i],
+      type,
+      discountPercentage: type === 'wallet' ? walletDiscount : info.discountPercentage,
+      promoCodeOwnerAddress: info.promoCodeOwnerAddress,
+      masterOwnerAddress: info.masterOwnerAddress,
+      baseOwnerPercentageOverride: info.baseOwnerPercentageOverride,
+      masterOwnerPercentageOverride: info.masterOwnerPercentageOverride,
+      totalPurchased: info.totalPurchased.toString(),
+      codePurchaseAmount: purchaseAmounts[i].toString(),
+      promoCodeOwnerEarnings: info.promoCodeOwnerEarnings.toString(),
+      masterOwnerEarnings: info.masterOwnerEarnings.toString(),
+    }
+  })
+}
@@ -0,0 +1,15 @@
+import readline from 'readline'
+
+// asks a yes / no question on the terminal, anything but y or yes is a no
+export const confirm = (question: string): Promise<boolean> => {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  })
+  return new Promise((resolve) => {
+    rl.question(`${question} [y/N] `, (answer) => {
+      rl.close()
+      resolve(/^y(es)?$/i.test(answer.trim()))
+    })
+  })
+}
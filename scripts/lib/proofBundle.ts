@@ -0,0 +1,83 @@
+import { ethers } from 'ethers'
+import { AllocationWhitelist, verifyWhitelistProof } from './whitelist'
+
+// bump when the bundle layout changes
+export const PROOF_BUNDLE_VERSION = 1
+
+export type ProofBundleEntry = {
+  allocation: string
+  proof: string[]
+}
+
+// what the frontend needs to call whitelistedPurchase, whitelistedPurchaseInTier,
+// whitelistedPurchaseInTierWithCode or withdrawGiveaway for every address
+export type ProofBundle = {
+  version: number
+  root: string
+  tierId?: string
+  entryCount: number
+  contentHash: string
+  // lowercase address => allocation and proof
+  entries: Record<string, ProofBundleEntry>
+}
+
+// hash of the entries, independent of key order in the JSON file
+export const computeProofBundleHash = (
+  entries: Record<string, ProofBundleEntry>
+): string => {
+  const canonical = Object.keys(entries)
+    .sort()
+    .map((address) => [address, entries[address].allocation, entries[address].proof])
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(JSON.stringify(canonical)))
+}
+
+// builds a bundle from a whitelist, tierId is only set for tiered sales
+export const buildProofBundle = (
+  whitelist: AllocationWhitelist,
+  tierId?: string
+): ProofBundle => {
+  const entries: Record<string, ProofBundleEntry> = {}
+  whitelist.entries
+    .map((entry) => ({ ...entry, address: entry.address.toLowerCase() }))
+    .sort((a, b) => (a.address < b.address ? -1 : 1))
+    .forEach((entry) => {
+      entries[entry.address] = {
+        allocation: ethers.BigNumber.from(entry.allocation).toString(),
+        proof: whitelist.getProof(entry.address),
+      }
+    })
+
+  return {
+    version: PROOF_BUNDLE_VERSION,
+    root: whitelist.root,
+    ...(tierId !== undefined ? { tierId } : {}),
+    entryCount: Object.keys(entries).length,
+    contentHash: computeProofBundleHash(entries),
+    entries,
+  }
+}
+
+// returns every inconsistency found in a bundle, empty when it is valid
+export const verifyProofBundle = (bundle: ProofBundle): string[] => {
+  const errors: string[] = []
+  if (bundle.version !== PROOF_BUNDLE_VERSION) {
+    errors.push(`Unsupported bundle version ${bundle.version}`)
+  }
+  const addresses = Object.keys(bundle.entries)
+  if (addresses.length !== bundle.entryCount) {
+    errors.push(`Entry count is ${bundle.entryCount} but bundle has ${addresses.length} entries`)
+  }
+  if (computeProofBundleHash(bundle.entries) !== bundle.contentHash) {
+    errors.push('Content hash does not match entries')
+  }
+  addresses.forEach((address) => {
+    const { allocation, proof } = bundle.entries[address]
+    if (address !== address.toLowerCase()) {
+      errors.push(`Address is not lowercase: ${address}`)
+    }
+    if (!verifyWhitelistProof(bundle.root, address, allocation, proof)) {
+      errors.push(`Invalid proof for ${address}`)
+    }
+  })
+  return errors
+}
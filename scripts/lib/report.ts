@@ -0,0 +1,15 @@
+import fs from 'fs'
+import path from 'path'
+import Papa from 'papaparse'
+
+export type ReportRow = Record<string, string | number | boolean>
+
+// writes rows as CSV when the file ends in .csv, as JSON otherwise
+export const writeReport = (file: string, rows: ReportRow[]): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const content =
+    path.extname(file).toLowerCase() === '.csv'
+      ? Papa.unparse(rows, { delimiter: ',', header: true, newline: '\n' }) + '\n'
+      : JSON.stringify(rows, null, 2) + '\n'
+  fs.writeFileSync(file, content)
+}
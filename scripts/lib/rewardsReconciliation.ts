@@ -0,0 +1,109 @@
+import { BigNumber, BigNumberish, Contract } from 'ethers'
+import { ERC20_ABI } from './erc20'
+import { PromoCodeReportRow } from './promoCodeReport'
+
+// an address with rewards it has not withdrawn yet
+export type UnwithdrawnOwner = {
+  address: string
+  amount: BigNumber
+  codes: { code: string; role: 'owner' | 'master'; amount: BigNumber }[]
+}
+
+export type RewardsReconciliation = {
+  ownerEarnings: BigNumber // sum of promoCodeOwnerEarnings
+  masterEarnings: BigNumber // sum of masterOwnerEarnings
+  earnings: BigNumber // ownerEarnings + masterEarnings
+  totalRewardsUnclaimed: BigNumber
+  paymentTokenBalance: BigNumber
+  drift: BigNumber // totalRewardsUnclaimed - earnings, non zero means a code is missing or the counter is off
+  safeCashable: BigNumber // what safeCashPaymentToken would send, 0 when it would revert
+  shortfall: BigNumber // missing balance to pay every unclaimed reward
+  unwithdrawn: UnwithdrawnOwner[] // largest amount first
+}
+
+const max = (a: BigNumber, b: BigNumber) => (a.gt(b) ? a : b)
+
+/**
+ * Compares the per code earnings with totalRewardsUnclaimed and the payment
+ * token balance. The shortfall is measured against the larger of the two
+ * reward totals, so a drifting counter cannot hide owed rewards.
+ */
+export const reconcileRewards = (
+  rows: PromoCodeReportRow[],
+  totalRewardsUnclaimed: BigNumberish,
+  paymentTokenBalance: BigNumberish
+): RewardsReconciliation => {
+  const unclaimed = BigNumber.from(totalRewardsUnclaimed)
+  const balance = BigNumber.from(paymentTokenBalance)
+  const zero = BigNumber.from(0)
+
+  let ownerEarnings = zero
+  let masterEarnings = zero
+  const owners = new Map<string, UnwithdrawnOwner>()
+  const owe = (address: string, code: string, role: 'owner' | 'master', amount: BigNumber) => {
+    if (amount.isZero()) return
+    const key = address.toLowerCase()
+    const owner = owners.get(key) || { address, amount: zero, codes: [] }
+    owner.amount = owner.amount.add(amount)
+    owner.codes.push({ code, role, amount })
+    owners.set(key, owner)
+  }
+
+  rows.forEach((row) => {
+    const ownerAmount = BigNumber.from(row.promoCodeOwnerEarnings)
+    const masterAmount = BigNumber.from(row.masterOwnerEarnings)
+    ownerEarnings = ownerEarnings.add(ownerAmount)
+    masterEarnings = masterEarnings.add(masterAmount)
+    owe(row.promoCodeOwnerAddress, row.code, 'owner', ownerAmount)
+    owe(row.masterOwnerAddress, row.code, 'master', masterAmount)
+  })
+
+  const earnings = ownerEarnings.add(masterEarnings)
+  return {
+    ownerEarnings,
+    masterEarnings,
+    earnings,
+    totalRewardsUnclaimed: unclaimed,
+    paymentTokenBalance: balance,
+    drift: unclaimed.sub(earnings),
+    // safeCashPaymentToken requires balance > totalRewardsUnclaimed
+    safeCashable: balance.gt(unclaimed) ? balance.sub(unclaimed) : zero,
+    shortfall: max(max(unclaimed, earnings).sub(balance), zero),
+    unwithdrawn: Array.from(owners.values()).sort((a, b) =>
+      b.amount.gt(a.amount) ? 1 : b.amount.lt(a.amount) ? -1 : 0
+    ),
+  }
+}
+
+// the on-chain side of reconcileRewards, at `blockTag` or the latest block
+export const fetchRewardTotals = async (
+  sale: Contract,
+  blockTag?: number
+): Promise<{ totalRewardsUnclaimed: BigNumber; paymentTokenBalance: BigNumber }> => {
+  const paymentToken = new Contract(await sale.paymentToken(), ERC20_ABI, sale.provider)
+  return {
+    totalRewardsUnclaimed: await sale.totalRewardsUnclaimed({ blockTag }),
+    paymentTokenBalance: await paymentToken.balanceOf(sale.address, { blockTag }),
+  }
+}
+
+// human readable summary
+export const formatRewardsReconciliation = (r: RewardsReconciliation): string => {
+  const lines = [
+    `Owner earnings: ${r.ownerEarnings}`,
+    `Master earnings: ${r.masterEarnings}`,
+    `Sum of earnings: ${r.earnings}`,
+    `totalRewardsUnclaimed: ${r.totalRewardsUnclaimed}`,
+    `Payment token balance: ${r.paymentTokenBalance}`,
+    `Drift (totalRewardsUnclaimed - sum): ${r.drift}`,
+    `Safe cashable: ${r.safeCashable}`,
+    `Shortfall: ${r.shortfall}`,
+    `Owners with unwithdrawn rewards: ${r.unwithdrawn.length}`,
+  ]
+  r.unwithdrawn.forEach((o) => {
+    lines.push(
+      `  ${o.address} ${o.amount} (${o.codes.map((c) => `${c.code} ${c.role} ${c.amount}`).join(', ')})`
+    )
+  })
+  return lines.join('\n')
+}
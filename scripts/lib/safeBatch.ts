@@ -0,0 +1,272 @@
+import fs from 'fs'
+import { BigNumber, Contract, ethers } from 'ethers'
+
+// a contract call, as sent by a task or written to a batch
+export type ContractCall = {
+  contract: Contract
+  method: string
+  args: unknown[]
+}
+
+export type SafeBatchInput = {
+  internalType: string
+  name: string
+  type: string
+}
+
+// one transaction of a Safe Transaction Builder batch
+export type SafeBatchTransaction = {
+  to: string
+  value: string
+  data: string | null // null when the Transaction Builder encodes contractMethod itself
+  contractMethod: {
+    inputs: SafeBatchInput[]
+    name: string
+    payable: boolean
+  } | null
+  contractInputsValues: Record<string, string> | null
+}
+
+// the JSON file the Safe Transaction Builder app imports and exports
+export type SafeBatch = {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: string
+    createdFromOwnerAddress: string
+  }
+  transactions: SafeBatchTransaction[]
+}
+
+export type DecodedParam = {
+  name: string
+  type: string
+  value: string
+}
+
+export type DecodedTransaction = {
+  index: number
+  to: string
+  value: string
+  signature?: string // undefined when no known ABI or contractMethod matches
+  params: DecodedParam[]
+  problems: string[]
+}
+
+// an argument as the Transaction Builder shows it: numbers as decimal
+// strings, arrays and structs as JSON
+export const inputValue = (value: unknown): string => {
+  const plain = (v: unknown): unknown => {
+    if (BigNumber.isBigNumber(v) || typeof v === 'number') return v.toString()
+    if (Array.isArray(v)) return v.map(plain)
+    return v
+  }
+  const result = plain(value)
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
+
+// key of a parameter in contractInputsValues
+const inputKey = (input: ethers.utils.ParamType, index: number): string =>
+  input.name || `arg${index}`
+
+const valuesOf = (
+  fragment: ethers.utils.FunctionFragment,
+  args: ethers.utils.Result
+): Record<string, string> =>
+  fragment.inputs.reduce((values, input, i) => {
+    values[inputKey(input, i)] = inputValue(args[i])
+    return values
+  }, {} as Record<string, string>)
+
+/**
+ * Encodes a call as a batch transaction. The preview in contractMethod and
+ * contractInputsValues is decoded back from `data`, so the two cannot differ.
+ */
+export const toBatchTransaction = (call: ContractCall): SafeBatchTransaction => {
+  const iface = call.contract.interface
+  const fragment = iface.getFunction(call.method)
+  const data = iface.encodeFunctionData(fragment, call.args)
+  return {
+    to: ethers.utils.getAddress(call.contract.address),
+    value: '0',
+    data,
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({
+        internalType: input.type,
+        name: input.name,
+        type: input.type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: valuesOf(
+      fragment,
+      iface.decodeFunctionData(fragment, data)
+    ),
+  }
+}
+
+// a batch the Safe `safe` can import into the Transaction Builder app
+export const buildSafeBatch = (
+  chainId: number,
+  safe: string,
+  calls: ContractCall[],
+  description: string,
+  createdAt = Date.now()
+): SafeBatch => ({
+  version: '1.0',
+  chainId: chainId.toString(),
+  createdAt,
+  meta: {
+    name: 'Transactions Batch',
+    description,
+    txBuilderVersion: '1.16.3',
+    createdFromSafeAddress: ethers.utils.getAddress(safe),
+    createdFromOwnerAddress: '',
+  },
+  transactions: calls.map(toBatchTransaction),
+})
+
+export const readSafeBatch = (file: string): SafeBatch => {
+  const batch = JSON.parse(fs.readFileSync(file, 'utf8'))
+  if (!batch || !Array.isArray(batch.transactions)) {
+    throw new Error(`${file} is not a Safe batch, it has no transactions`)
+  }
+  batch.transactions.forEach((tx: SafeBatchTransaction, i: number) => {
+    if (typeof tx.to !== 'string' || !ethers.utils.isAddress(tx.to)) {
+      throw new Error(`Transaction ${i + 1} has no valid to address`)
+    }
+  })
+  return batch
+}
+
+// data of a transaction exported without it, from its contractMethod preview
+const encodeFromPreview = (tx: SafeBatchTransaction): string => {
+  const method = tx.contractMethod
+  if (!method) throw new Error('it has neither data nor contractMethod')
+  const fragment = ethers.utils.FunctionFragment.from({
+    type: 'function',
+    name: method.name,
+    inputs: method.inputs,
+    stateMutability: method.payable ? 'payable' : 'nonpayable',
+  })
+  const values = tx.contractInputsValues || {}
+  const args = fragment.inputs.map((input, i) => {
+    const value = values[inputKey(input, i)]
+    if (value === undefined) throw new Error(`${input.name} has no value`)
+    if (input.baseType === 'array' || input.baseType === 'tuple') {
+      return JSON.parse(value)
+    }
+    return input.type === 'bool' ? value === 'true' : value
+  })
+  return new ethers.utils.Interface([fragment]).encodeFunctionData(
+    fragment,
+    args
+  )
+}
+
+/**
+ * Decodes every transaction of a batch with the first of `interfaces` that
+ * knows its selector, else with its own contractMethod, and lists what a
+ * reviewer should not sign: unknown selectors, a contractMethod preview that
+ * does not match the data, and value sent to a non payable function.
+ */
+export const decodeSafeBatch = (
+  batch: SafeBatch,
+  interfaces: ethers.utils.Interface[]
+): DecodedTransaction[] => {
+  return batch.transactions.map((tx, i) => {
+    const decoded: DecodedTransaction = {
+      index: i + 1,
+      to: tx.to,
+      value: tx.value || '0',
+      params: [],
+      problems: [],
+    }
+
+    let data = tx.data
+    if (!data || data === '0x') {
+      try {
+        data = encodeFromPreview(tx)
+      } catch (e) {
+        decoded.problems.push(`Cannot encode: ${(e as Error).message}`)
+        return decoded
+      }
+    }
+
+    const selector = ethers.utils.hexDataSlice(data, 0, 4)
+    let iface = interfaces.find((candidate) =>
+      Object.values(candidate.functions).some(
+        (f) => candidate.getSighash(f) === selector
+      )
+    )
+    if (!iface) {
+      decoded.problems.push(`Unknown function selector ${selector}`)
+      if (!tx.contractMethod) return decoded
+      try {
+        iface = new ethers.utils.Interface([
+          ethers.utils.FunctionFragment.from({
+            type: 'function',
+            name: tx.contractMethod.name,
+            inputs: tx.contractMethod.inputs,
+          }),
+        ])
+        iface.getFunction(selector)
+      } catch (e) {
+        decoded.problems.push('contractMethod does not match the data')
+        return decoded
+      }
+    }
+
+    const fragment = iface.getFunction(selector)
+    let args: ethers.utils.Result
+    try {
+      args = iface.decodeFunctionData(fragment, data)
+    } catch (e) {
+      decoded.problems.push(`Data does not decode as ${fragment.format()}`)
+      return decoded
+    }
+    decoded.signature = fragment.format()
+    decoded.params = fragment.inputs.map((input, j) => ({
+      name: inputKey(input, j),
+      type: input.type,
+      value: inputValue(args[j]),
+    }))
+
+    if (tx.contractMethod && tx.contractMethod.name !== fragment.name) {
+      decoded.problems.push(
+        `contractMethod is ${tx.contractMethod.name}, the data calls ${fragment.name}`
+      )
+    } else if (tx.contractInputsValues) {
+      const previewed = tx.contractInputsValues
+      decoded.params
+        .filter((p) => previewed[p.name] !== p.value)
+        .forEach((p) =>
+          decoded.problems.push(
+            `contractInputsValues.${p.name} is ${previewed[p.name]}, the data encodes ${p.value}`
+          )
+        )
+    }
+    if (!BigNumber.from(decoded.value).isZero() && !fragment.payable) {
+      decoded.problems.push(`Sends ${decoded.value} wei to a non payable function`)
+    }
+    return decoded
+  })
+}
+
+// one block per transaction, with its parameters and problems
+export const formatDecodedBatch = (decoded: DecodedTransaction[]): string => {
+  return decoded
+    .map((tx) => {
+      const lines = [`#${tx.index} ${tx.to} ${tx.signature || '(unknown call)'}`]
+      if (tx.value !== '0') lines.push(`    value: ${tx.value}`)
+      tx.params.forEach((p) => lines.push(`    ${p.name}: ${p.value}`))
+      tx.problems.forEach((p) => lines.push(`    PROBLEM: ${p}`))
+      return lines.join('\n')
+    })
+    .join('\n')
+}
@@ -0,0 +1,78 @@
+import { Contract, ContractTransaction } from 'ethers'
+import { TierCall } from './tierManifest'
+import { TierConfig } from './tieredSaleConfig'
+import { formatDuration, tierPhase } from './tieredSaleStatus'
+
+// tiers named in `tierIds`, or every tier when none are given
+export const selectTiers = (
+  tiers: TierConfig[],
+  tierIds: string[]
+): TierConfig[] => {
+  if (tierIds.length === 0) return tiers
+  const unknown = tierIds.filter((id) => !tiers.some((t) => t.tierId === id))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tiers: ${unknown.join(', ')}`)
+  }
+  return tiers.filter((t) => tierIds.includes(t.tierId))
+}
+
+/**
+ * One line per halted tier that a resume would reopen, with whether buyers
+ * can purchase right away or the tier is outside its time window.
+ */
+export const describeResume = (tiers: TierConfig[], now: number): string[] => {
+  return tiers
+    .filter((t) => t.isHalt)
+    .map((t) => {
+      const phase = tierPhase(t, now)
+      const window =
+        phase === 'active'
+          ? `inside its window, ends in ${formatDuration(t.endTime - now)}`
+          : phase === 'upcoming'
+          ? `not started, starts in ${formatDuration(t.startTime - now)}`
+          : 'window ended, stays closed'
+      return `${t.tierId}: ${window}`
+    })
+}
+
+/**
+ * Tiers a resume unhalts one by one: the halted ones of `selected`, the
+ * tiers named in `tierIds`. None when no tier is named, every tier is then
+ * unhalted at once.
+ */
+export const resumeTierIds = (
+  selected: TierConfig[],
+  tierIds: string[]
+): string[] => {
+  if (tierIds.length === 0) return []
+  return selected.filter((t) => t.isHalt).map((t) => t.tierId)
+}
+
+// the calls setting isHalt, haltAllTiers / unhaltAllTiers when every tier is selected
+export const haltCalls = (tierIds: string[], isHalt: boolean): TierCall[] => {
+  if (tierIds.length === 0) {
+    return [{ method: isHalt ? 'haltAllTiers' : 'unhaltAllTiers', args: [] }]
+  }
+  return tierIds.map((tierId) => ({
+    method: 'updateIsHalt',
+    args: [tierId, isHalt],
+  }))
+}
+
+/**
+ * Sends haltCalls back to back and only then waits for them, so a halt takes
+ * effect as fast as possible.
+ */
+export const setTiersHalted = async (
+  sale: Contract,
+  tierIds: string[],
+  isHalt: boolean,
+  confirmations = 1
+): Promise<ContractTransaction[]> => {
+  const sent: ContractTransaction[] = []
+  for (const call of haltCalls(tierIds, isHalt)) {
+    sent.push(await sale[call.method](...call.args))
+  }
+  await Promise.all(sent.map((tx) => tx.wait(confirmations)))
+  return sent
+}
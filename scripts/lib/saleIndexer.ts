@@ -0,0 +1,238 @@
+import fs from 'fs'
+import path from 'path'
+import { BigNumber, Contract, ethers } from 'ethers'
+
+// IFTieredSale events kept for reporting
+export const INDEXED_EVENTS = [
+  'PurchasedInTier',
+  'PromoCodeAdded',
+  'ReferralRewardWithdrawn',
+  'TierUpdated',
+  'Cash',
+]
+
+export type IndexedEvent = {
+  event: string
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  args: Record<string, string | number | boolean> // uint256 as decimal strings
+}
+
+export type IndexerCheckpoint = {
+  sale: string
+  chainId: number
+  lastBlock: number // every event up to and including this block is stored
+}
+
+export type IndexOptions = {
+  fromBlock: number // first block to scan on a fresh store, usually the deploy block
+  toBlock?: number // defaults to the latest block minus confirmations
+  confirmations?: number // blocks to stay behind the head so reorgs do not reach the store
+  maxBlockRange?: number // blocks per getLogs call, halved when the RPC refuses a range
+  onProgress?: (lastBlock: number, toBlock: number, found: number) => void
+}
+
+const DEFAULT_MAX_BLOCK_RANGE = 5000
+const EVENTS_FILE = 'events.jsonl'
+const CHECKPOINT_FILE = 'checkpoint.json'
+
+/**
+ * Append-only JSONL store of indexed events with a checkpoint of the last
+ * fully scanned block. Events are written before the checkpoint, so lines
+ * past the checkpoint (left by an interrupted run) are dropped on open, as
+ * is a half written last line.
+ */
+export class JsonlEventStore {
+  readonly dir: string
+  private checkpoint?: IndexerCheckpoint
+
+  constructor(dir: string) {
+    this.dir = dir
+    fs.mkdirSync(dir, { recursive: true })
+
+    const checkpointFile = path.join(dir, CHECKPOINT_FILE)
+    if (fs.existsSync(checkpointFile)) {
+      this.checkpoint = JSON.parse(fs.readFileSync(checkpointFile, 'utf8'))
+    }
+    const { events, torn } = this.readLines()
+    const lastBlock = this.checkpoint ? this.checkpoint.lastBlock : -1
+    const kept = events.filter((e) => e.blockNumber <= lastBlock)
+    // rewritten after a torn line too, the next append would extend it
+    if (torn || kept.length !== events.length) {
+      this.writeEvents(kept)
+    }
+  }
+
+  getCheckpoint(): IndexerCheckpoint | undefined {
+    return this.checkpoint
+  }
+
+  readEvents(): IndexedEvent[] {
+    return this.readLines().events
+  }
+
+  // the stored events, without a last line that was not fully written, and
+  // whether the last line lacks its newline
+  private readLines(): { events: IndexedEvent[]; torn: boolean } {
+    const file = path.join(this.dir, EVENTS_FILE)
+    if (!fs.existsSync(file)) return { events: [], torn: false }
+    const content = fs.readFileSync(file, 'utf8')
+    const lines = content.split('\n').filter((line) => line.trim() !== '')
+    // an interrupted append leaves the last line unterminated, and cut short
+    // unless the crash came right before its newline
+    const torn = lines.length > 0 && !content.endsWith('\n')
+    if (torn) {
+      try {
+        JSON.parse(lines[lines.length - 1])
+      } catch (e) {
+        lines.pop()
+      }
+    }
+    return { events: lines.map((line) => JSON.parse(line)), torn }
+  }
+
+  // stores the events of a scanned range, then moves the checkpoint past it
+  commit(events: IndexedEvent[], checkpoint: IndexerCheckpoint): void {
+    if (events.length > 0) {
+      fs.appendFileSync(
+        path.join(this.dir, EVENTS_FILE),
+        events.map((e) => JSON.stringify(e)).join('\n') + '\n'
+      )
+    }
+    // write then rename, so a crash never leaves a half written checkpoint
+    const file = path.join(this.dir, CHECKPOINT_FILE)
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint, null, 2))
+    fs.renameSync(`${file}.tmp`, file)
+    this.checkpoint = checkpoint
+  }
+
+  private writeEvents(events: IndexedEvent[]): void {
+    fs.writeFileSync(
+      path.join(this.dir, EVENTS_FILE),
+      events.map((e) => JSON.stringify(e) + '\n').join('')
+    )
+  }
+}
+
+const toRecord = (log: ethers.providers.Log, parsed: ethers.utils.LogDescription): IndexedEvent => {
+  const args: IndexedEvent['args'] = {}
+  parsed.eventFragment.inputs.forEach((input, i) => {
+    const value = parsed.args[i]
+    args[input.name] = BigNumber.isBigNumber(value) ? value.toString() : value
+  })
+  return {
+    event: parsed.name,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    args,
+  }
+}
+
+// decoded sale events in [fromBlock, toBlock], in chain order
+export const fetchSaleEvents = async (
+  sale: Contract,
+  fromBlock: number,
+  toBlock: number,
+  events: string[] = INDEXED_EVENTS
+): Promise<IndexedEvent[]> => {
+  const topics = events.map((name) => sale.interface.getEventTopic(name))
+  const logs = await sale.provider.getLogs({
+    address: sale.address,
+    topics: [topics],
+    fromBlock,
+    toBlock,
+  })
+  return logs
+    .filter((log) => !log.removed)
+    .map((log) => toRecord(log, sale.interface.parseLog(log)))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+}
+
+/**
+ * Calls `fetch` over [fromBlock, toBlock] in consecutive ranges of at most
+ * `maxBlockRange` blocks. RPCs word range and result size limits differently,
+ * so any failure on a multi block range is retried with half the range.
+ */
+const scanRanges = async (
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange: number,
+  fetch: (from: number, to: number) => Promise<IndexedEvent[]>,
+  onRange: (events: IndexedEvent[], to: number) => void
+): Promise<void> => {
+  let from = fromBlock
+  let range = maxBlockRange
+  while (from <= toBlock) {
+    const to = Math.min(from + range - 1, toBlock)
+    let events: IndexedEvent[]
+    try {
+      events = await fetch(from, to)
+    } catch (e) {
+      if (range === 1) throw e
+      range = Math.ceil(range / 2)
+      continue
+    }
+    onRange(events, to)
+    from = to + 1
+  }
+}
+
+// fetchSaleEvents over a span of any size, without a store
+export const fetchSaleEventsInRanges = async (
+  sale: Contract,
+  fromBlock: number,
+  toBlock: number,
+  events: string[],
+  maxBlockRange = DEFAULT_MAX_BLOCK_RANGE
+): Promise<IndexedEvent[]> => {
+  const found: IndexedEvent[] = []
+  await scanRanges(
+    fromBlock,
+    toBlock,
+    maxBlockRange,
+    (from, to) => fetchSaleEvents(sale, from, to, events),
+    (range) => found.push(...range)
+  )
+  return found
+}
+
+/**
+ * Scans the sale events from the store checkpoint (or `fromBlock`) up to the
+ * confirmed head and commits them range by range, so an interrupted run
+ * resumes where it stopped. Returns the number of events added.
+ */
+export const indexSaleEvents = async (
+  sale: Contract,
+  store: JsonlEventStore,
+  options: IndexOptions
+): Promise<number> => {
+  const { chainId } = await sale.provider.getNetwork()
+  const saleAddress = sale.address.toLowerCase()
+  const checkpoint = store.getCheckpoint()
+  if (checkpoint && (checkpoint.sale !== saleAddress || checkpoint.chainId !== chainId)) {
+    throw new Error(
+      `Store ${store.dir} belongs to sale ${checkpoint.sale} on chain ${checkpoint.chainId}`
+    )
+  }
+
+  const confirmations = options.confirmations ?? 0
+  const head = (await sale.provider.getBlockNumber()) - confirmations
+  const toBlock = options.toBlock !== undefined ? Math.min(options.toBlock, head) : head
+  let found = 0
+  await scanRanges(
+    checkpoint ? checkpoint.lastBlock + 1 : options.fromBlock,
+    toBlock,
+    options.maxBlockRange || DEFAULT_MAX_BLOCK_RANGE,
+    (from, to) => fetchSaleEvents(sale, from, to),
+    (events, to) => {
+      store.commit(events, { sale: saleAddress, chainId, lastBlock: to })
+      found += events.length
+      if (options.onProgress) options.onProgress(to, toBlock, found)
+    }
+  )
+  return found
+}
@@ -0,0 +1,119 @@
+import { Contract, ethers } from 'ethers'
+import { fetchSaleEventsInRanges, IndexedEvent } from './saleIndexer'
+
+export const DEFAULT_ADMIN_ROLE = ethers.constants.HashZero
+export const OPERATOR_ROLE = ethers.utils.keccak256(ethers.utils.toUtf8Bytes('OPERATOR_ROLE'))
+
+export const ROLE_NAMES: Record<string, string> = {
+  [DEFAULT_ADMIN_ROLE]: 'DEFAULT_ADMIN_ROLE',
+  [OPERATOR_ROLE]: 'OPERATOR_ROLE',
+}
+
+export type RoleHolders = {
+  owner: string
+  admins: string[]
+  operators: string[]
+  warnings: string[]
+}
+
+// current holders of each role from RoleGranted / RoleRevoked, in event order
+export const replayRoleEvents = (events: IndexedEvent[]): Map<string, string[]> => {
+  const holders = new Map<string, Map<string, string>>() // role => lowercase => checksummed
+  events.forEach((e) => {
+    if (e.event !== 'RoleGranted' && e.event !== 'RoleRevoked') return
+    const role = e.args.role as string
+    const account = ethers.utils.getAddress(e.args.account as string)
+    const accounts = holders.get(role) || new Map<string, string>()
+    if (e.event === 'RoleGranted') accounts.set(account.toLowerCase(), account)
+    else accounts.delete(account.toLowerCase())
+    holders.set(role, accounts)
+  })
+  const result = new Map<string, string[]>()
+  holders.forEach((accounts, role) => result.set(role, Array.from(accounts.values())))
+  return result
+}
+
+/**
+ * Flags an owner / DEFAULT_ADMIN_ROLE split. transferOwnership moves the admin
+ * role along with ownership, but admins granted with grantRole stay admins,
+ * and an owner whose admin role was revoked can no longer addOperator.
+ */
+export const roleDriftWarnings = (owner: string, admins: string[]): string[] => {
+  const warnings: string[] = []
+  const isAdmin = admins.some((a) => a.toLowerCase() === owner.toLowerCase())
+  if (!isAdmin) warnings.push(`Owner ${owner} does not hold DEFAULT_ADMIN_ROLE`)
+  admins
+    .filter((a) => a.toLowerCase() !== owner.toLowerCase())
+    .forEach((a) => warnings.push(`${a} holds DEFAULT_ADMIN_ROLE but is not the owner`))
+  return warnings
+}
+
+// whether `account` passes IFTieredSale's onlyOperator, which takes either
+// role, so an owner that only holds DEFAULT_ADMIN_ROLE can halt and resume
+export const canOperate = async (
+  sale: Contract,
+  account: string
+): Promise<boolean> =>
+  (await sale.hasRole(OPERATOR_ROLE, account)) ||
+  (await sale.hasRole(DEFAULT_ADMIN_ROLE, account))
+
+/**
+ * Rebuilds role holders from events since `fromBlock` (the deploy block, where
+ * the constructor grants both roles) and checks every holder with hasRole,
+ * so a scan started too late is reported rather than silently wrong.
+ */
+export const fetchRoleHolders = async (
+  sale: Contract,
+  fromBlock: number,
+  maxBlockRange?: number
+): Promise<RoleHolders> => {
+  const toBlock = await sale.provider.getBlockNumber()
+  const events = await fetchSaleEventsInRanges(
+    sale,
+    fromBlock,
+    toBlock,
+    ['RoleGranted', 'RoleRevoked'],
+    maxBlockRange
+  )
+  const holders = replayRoleEvents(events)
+  const owner: string = await sale.owner({ blockTag: toBlock })
+  const admins = holders.get(DEFAULT_ADMIN_ROLE) || []
+  const operators = holders.get(OPERATOR_ROLE) || []
+
+  const warnings = roleDriftWarnings(owner, admins)
+  const check = async (role: string, accounts: string[]) => {
+    for (const account of accounts) {
+      if (!(await sale.hasRole(role, account, { blockTag: toBlock }))) {
+        warnings.push(
+          `${account} holds ${ROLE_NAMES[role]} by events but hasRole is false`
+        )
+      }
+    }
+  }
+  await check(DEFAULT_ADMIN_ROLE, admins)
+  await check(OPERATOR_ROLE, operators)
+  const ownerListed = admins.some(
+    (a) => a.toLowerCase() === owner.toLowerCase()
+  )
+  const ownerIsAdmin: boolean = await sale.hasRole(DEFAULT_ADMIN_ROLE, owner, {
+    blockTag: toBlock,
+  })
+  if (!ownerListed && ownerIsAdmin) {
+    warnings.push(
+      `Owner ${owner} has DEFAULT_ADMIN_ROLE but no RoleGranted was found, ` +
+        'is fromBlock after the deploy block?'
+    )
+  }
+
+  return { owner, admins, operators, warnings }
+}
+
+// human readable list
+export const formatRoleHolders = (holders: RoleHolders): string => {
+  const lines = [`Owner: ${holders.owner}`, 'DEFAULT_ADMIN_ROLE:']
+  holders.admins.forEach((a) => lines.push(`  ${a}`))
+  lines.push('OPERATOR_ROLE:')
+  holders.operators.forEach((o) => lines.push(`  ${o}`))
+  holders.warnings.forEach((w) => lines.push(`WARNING: ${w}`))
+  return lines.join('\n')
+}
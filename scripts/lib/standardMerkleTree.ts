@@ -0,0 +1,130 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { WhitelistEntry } from './whitelist'
+
+// JSON dump of OpenZeppelin's StandardMerkleTree (@openzeppelin/merkle-tree)
+export type StandardMerkleTreeDump = {
+  format: string
+  tree: string[]
+  values: { value: unknown[]; treeIndex: number }[]
+  leafEncoding: string[]
+}
+
+export const STANDARD_TREE_FORMAT = 'standard-v1'
+
+// the only leaf layout checkWhitelist / checkTierWhitelist can use
+const ALLOCATION_ENCODING = ['address', 'uint256']
+
+// StandardMerkleTree leaf: keccak256(keccak256(abi.encode(values)))
+export const standardLeafHash = (types: string[], value: unknown[]): string => {
+  return ethers.utils.keccak256(
+    ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(types, value))
+  )
+}
+
+const hashPair = (a: string, b: string): string => {
+  const [left, right] = a.toLowerCase() <= b.toLowerCase() ? [a, b] : [b, a]
+  return ethers.utils.keccak256(ethers.utils.concat([left, right]))
+}
+
+// complete binary tree in array form, as built by @openzeppelin/merkle-tree
+const makeStandardTree = (leaves: string[]): string[] => {
+  const tree = new Array<string>(2 * leaves.length - 1)
+  leaves.forEach((leaf, i) => {
+    tree[tree.length - 1 - i] = leaf
+  })
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2])
+  }
+  return tree
+}
+
+const sameEncoding = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((type, i) => type === b[i])
+}
+
+/**
+ * Exports a whitelist as a StandardMerkleTree dump with (address, uint256) leaves.
+ *
+ * The dump root is NOT the root to set on our sales: StandardMerkleTree leaves
+ * are double hashed abi.encode values while checkWhitelist / checkTierWhitelist
+ * hash abi.encodePacked(user, allocation) once.
+ */
+export const exportStandardMerkleTree = (
+  entries: WhitelistEntry[]
+): StandardMerkleTreeDump => {
+  if (entries.length === 0) {
+    throw new Error('Whitelist is empty')
+  }
+
+  const hashed = entries
+    .map((entry, valueIndex) => {
+      const value = [
+        ethers.utils.getAddress(entry.address),
+        BigNumber.from(entry.allocation).toString(),
+      ]
+      return { value, valueIndex, hash: standardLeafHash(ALLOCATION_ENCODING, value) }
+    })
+    .sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0))
+
+  const tree = makeStandardTree(hashed.map((h) => h.hash))
+  const values = new Array<{ value: unknown[]; treeIndex: number }>(entries.length)
+  hashed.forEach((h, leafIndex) => {
+    values[h.valueIndex] = { value: h.value, treeIndex: tree.length - 1 - leafIndex }
+  })
+
+  return {
+    format: STANDARD_TREE_FORMAT,
+    tree,
+    values,
+    leafEncoding: ALLOCATION_ENCODING,
+  }
+}
+
+/**
+ * Reads the (address, allocation) entries of a StandardMerkleTree dump after
+ * checking the dump is consistent. Address-only dumps need `defaultAllocation`.
+ *
+ * Only the values can be reused: the dump root must be recomputed with our leaf
+ * encoding before it is set on a sale.
+ */
+export const importStandardMerkleTree = (
+  dump: StandardMerkleTreeDump,
+  defaultAllocation?: BigNumberish
+): WhitelistEntry[] => {
+  if (dump.format !== STANDARD_TREE_FORMAT) {
+    throw new Error(
+      `Unsupported tree format ${dump.format}: only ${STANDARD_TREE_FORMAT} dumps store the leaf values, other formats only keep hashes`
+    )
+  }
+
+  const addressOnly = sameEncoding(dump.leafEncoding, ['address'])
+  if (!addressOnly && !sameEncoding(dump.leafEncoding, ALLOCATION_ENCODING)) {
+    throw new Error(
+      `Leaf encoding (${dump.leafEncoding.join(', ')}) cannot be mapped to (address, uint256) allocation leaves`
+    )
+  }
+  if (addressOnly && defaultAllocation === undefined) {
+    throw new Error(
+      'Leaf encoding (address) has no allocation, a default allocation is required'
+    )
+  }
+
+  // every value must hash to its leaf and every node to its children
+  dump.values.forEach(({ value, treeIndex }) => {
+    if (standardLeafHash(dump.leafEncoding, value).toLowerCase() !== dump.tree[treeIndex]?.toLowerCase()) {
+      throw new Error(`Value ${JSON.stringify(value)} does not match leaf ${treeIndex}`)
+    }
+  })
+  for (let i = 0; 2 * i + 2 < dump.tree.length; i++) {
+    if (hashPair(dump.tree[2 * i + 1], dump.tree[2 * i + 2]).toLowerCase() !== dump.tree[i].toLowerCase()) {
+      throw new Error(`Tree node ${i} does not match its children`)
+    }
+  }
+
+  return dump.values.map(({ value }) => ({
+    address: ethers.utils.getAddress(value[0] as string),
+    allocation: addressOnly
+      ? (defaultAllocation as BigNumberish)
+      : BigNumber.from(value[1]).toString(),
+  }))
+}
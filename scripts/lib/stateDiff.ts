@@ -0,0 +1,113 @@
+import { BigNumber, Contract } from 'ethers'
+import { ERC20_ABI } from './erc20'
+import { DEFAULT_ADMIN_ROLE, OPERATOR_ROLE } from './saleRoles'
+import { fetchTiers } from './tieredSaleConfig'
+
+// view name => value, as printed
+export type SaleSnapshot = Record<string, string>
+
+export type StateChange = {
+  key: string
+  before?: string // undefined when the view did not exist before, e.g. a new tier
+  after?: string
+}
+
+// BigNumbers as decimals, structs and arrays as JSON
+export const formatValue = (value: unknown): string => {
+  const plain = (v: unknown): unknown => {
+    if (BigNumber.isBigNumber(v)) return v.toString()
+    if (Array.isArray(v)) return v.map(plain)
+    return v
+  }
+  const result = plain(value)
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
+
+/**
+ * Reads every no argument view of the sale, its tiers, the payment and sale
+ * token balances of the labelled `accounts` (and the sale) and, on sales
+ * with roles, which of them hold OPERATOR_ROLE / DEFAULT_ADMIN_ROLE.
+ * Views that revert are recorded as such rather than failing the snapshot.
+ */
+export const snapshotSale = async (
+  sale: Contract,
+  accounts: Record<string, string>
+): Promise<SaleSnapshot> => {
+  const snapshot: SaleSnapshot = {}
+  const read = async (key: string, call: () => Promise<unknown>) => {
+    try {
+      snapshot[key] = formatValue(await call())
+    } catch (e) {
+      snapshot[key] = '(reverted)'
+    }
+  }
+
+  const views = Object.values(sale.interface.functions).filter(
+    (f) => f.constant && f.inputs.length === 0
+  )
+  for (const view of views) {
+    await read(view.name, () => sale[view.format()]())
+  }
+
+  if (sale.interface.functions['getAllTierIds()']) {
+    for (const tier of await fetchTiers(sale)) {
+      Object.entries(tier)
+        .filter(([field]) => field !== 'tierId')
+        .forEach(([field, value]) => {
+          snapshot[`tiers(${tier.tierId}).${field}`] = formatValue(value)
+        })
+    }
+  }
+
+  const labels = Object.keys(accounts)
+  for (const token of ['paymentToken', 'saleToken']) {
+    if (!sale.interface.functions[`${token}()`]) continue
+    const contract = new Contract(await sale[token](), ERC20_ABI, sale.provider)
+    for (const label of labels) {
+      await read(`${token}.balanceOf(${label})`, () =>
+        contract.balanceOf(accounts[label])
+      )
+    }
+  }
+
+  if (sale.interface.functions['hasRole(bytes32,address)']) {
+    const roles: [string, string][] = [
+      ['OPERATOR_ROLE', OPERATOR_ROLE],
+      ['DEFAULT_ADMIN_ROLE', DEFAULT_ADMIN_ROLE],
+    ]
+    for (const label of labels) {
+      for (const [name, role] of roles) {
+        await read(`hasRole(${name}, ${label})`, () =>
+          sale.hasRole(role, accounts[label])
+        )
+      }
+    }
+  }
+
+  return snapshot
+}
+
+// keys whose value differs, in the order of `after` then keys only in `before`
+export const diffSnapshots = (
+  before: SaleSnapshot,
+  after: SaleSnapshot
+): StateChange[] => {
+  const changes: StateChange[] = []
+  Object.keys(after).forEach((key) => {
+    if (before[key] !== after[key]) {
+      changes.push({ key, before: before[key], after: after[key] })
+    }
+  })
+  Object.keys(before)
+    .filter((key) => !(key in after))
+    .forEach((key) => changes.push({ key, before: before[key] }))
+  return changes
+}
+
+// one `key: before -> after` line per change
+export const formatStateDiff = (changes: StateChange[]): string => {
+  if (changes.length === 0) return 'No state changes'
+  return changes
+    .map((c) => `${c.key}: ${c.before ?? '(none)'} -> ${c.after ?? '(none)'}`)
+    .join('\n')
+}
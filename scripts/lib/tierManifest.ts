@@ -0,0 +1,234 @@
+import fs from 'fs'
+import path from 'path'
+import { BigNumber } from 'ethers'
+import yaml from 'js-yaml'
+import {
+  normalizeTier,
+  setTierArgs,
+  TierConfig,
+  validateTier,
+} from './tieredSaleConfig'
+
+// a single contract call needed to move a tier to its manifest state
+export type TierCall = {
+  method: string
+  args: unknown[]
+}
+
+export type FieldChange = {
+  field: keyof TierConfig
+  from: string
+  to: string
+}
+
+export type TierPlan = {
+  tierId: string
+  action: 'create' | 'update' | 'unchanged' | 'unmanaged'
+  changes: FieldChange[]
+  calls: TierCall[]
+  errors: string[]
+}
+
+// fields compared between the manifest and the chain, in IFTieredSale.Tier order
+const TIER_FIELDS: (keyof TierConfig)[] = [
+  'price',
+  'maxTotalPurchasable',
+  'maxAllocationPerWallet',
+  'bonusPercentage',
+  'whitelistRootHash',
+  'isHalt',
+  'allowPromoCode',
+  'allowWalletPromoCode',
+  'startTime',
+  'endTime',
+]
+
+// tier fields that have a dedicated update function on IFTieredSale
+const UPDATE_METHODS: Partial<Record<keyof TierConfig, string>> = {
+  maxTotalPurchasable: 'updateMaxTotalPurchasable',
+  maxAllocationPerWallet: 'updateMaxAllocationPerWallet',
+  whitelistRootHash: 'updateWhitelist',
+  isHalt: 'updateIsHalt',
+  allowPromoCode: 'updatePromoCodeAllowance',
+  allowWalletPromoCode: 'updateWalletPromoCodeAllowance',
+  startTime: 'updateTierStartTime',
+  endTime: 'updateTierEndTime',
+}
+
+// reads a JSON or YAML manifest, either a bare list of tiers or an object with
+// a `tiers` key (so a deploy config can be used as a manifest as well)
+export const readTierManifest = (file: string): TierConfig[] => {
+  const content = fs.readFileSync(file, 'utf8')
+  const extension = path.extname(file).toLowerCase()
+  let parsed
+  if (extension === '.json') {
+    parsed = JSON.parse(content)
+  } else if (extension === '.yaml' || extension === '.yml') {
+    parsed = yaml.load(content)
+  } else {
+    throw new Error(`Unsupported tier manifest ${file}, expected .json, .yaml or .yml`)
+  }
+  const tiers: TierConfig[] = Array.isArray(parsed) ? parsed : parsed?.tiers
+  if (!Array.isArray(tiers)) {
+    throw new Error('Tier manifest has no tiers')
+  }
+  return tiers.map(normalizeTier)
+}
+
+// string form of a field, so chain values and manifest values compare equal
+const formatField = (tier: TierConfig, field: keyof TierConfig): string => {
+  const value = tier[field]
+  if (typeof value === 'boolean') return value.toString()
+  if (field === 'whitelistRootHash') return (value as string).toLowerCase()
+  if (field === 'tierId') return value as string
+  return BigNumber.from(value).toString()
+}
+
+// plans the calls for a tier that exists both on-chain and in the manifest
+const planUpdate = (
+  current: TierConfig,
+  wanted: TierConfig,
+  now: number
+): TierPlan => {
+  const changes: FieldChange[] = TIER_FIELDS.filter(
+    (field) => formatField(current, field) !== formatField(wanted, field)
+  ).map((field) => ({
+    field,
+    from: formatField(current, field),
+    to: formatField(wanted, field),
+  }))
+
+  const plan: TierPlan = {
+    tierId: wanted.tierId,
+    action: changes.length > 0 ? 'update' : 'unchanged',
+    changes,
+    calls: [],
+    errors: [],
+  }
+  if (changes.length === 0) return plan
+
+  // price and bonus can only be changed by rewriting the whole tier,
+  // which setTier only allows while the manifest start time is in the future
+  const needsSetTier = changes.some((c) => !UPDATE_METHODS[c.field])
+  if (needsSetTier) {
+    if (current.startTime <= now) {
+      plan.errors.push(
+        `${changes
+          .filter((c) => !UPDATE_METHODS[c.field])
+          .map((c) => c.field)
+          .join(', ')} cannot be changed after the tier has started`
+      )
+    }
+    plan.errors.push(...validateTier(wanted, now))
+    plan.calls.push({ method: 'setTier', args: setTierArgs(wanted) })
+    return plan
+  }
+
+  // fields without ordering constraints
+  changes
+    .filter((c) => c.field !== 'startTime' && c.field !== 'endTime')
+    .forEach((c) => {
+      plan.calls.push({
+        method: UPDATE_METHODS[c.field] as string,
+        args: [wanted.tierId, wanted[c.field]],
+      })
+    })
+
+  // updateTierStartTime checks against the current end time and vice versa,
+  // so extend the window first when moving it later and shrink it first otherwise
+  const startChanged = changes.some((c) => c.field === 'startTime')
+  const endChanged = changes.some((c) => c.field === 'endTime')
+  if (startChanged && wanted.startTime <= now) {
+    plan.errors.push('Invalid start time')
+  }
+  if (endChanged && wanted.endTime <= now) {
+    plan.errors.push('Invalid end time')
+  }
+  if (wanted.endTime <= wanted.startTime) {
+    plan.errors.push('Invalid end time')
+  }
+  const startCall = {
+    method: 'updateTierStartTime',
+    args: [wanted.tierId, wanted.startTime],
+  }
+  const endCall = {
+    method: 'updateTierEndTime',
+    args: [wanted.tierId, wanted.endTime],
+  }
+  if (startChanged && endChanged) {
+    plan.calls.push(
+      ...(wanted.endTime > current.endTime
+        ? [endCall, startCall]
+        : [startCall, endCall])
+    )
+  } else if (startChanged) {
+    plan.calls.push(startCall)
+  } else if (endChanged) {
+    plan.calls.push(endCall)
+  }
+
+  return plan
+}
+
+// diffs the manifest against on-chain tiers and lists the minimal calls to apply it
+export const planTiers = (
+  manifest: TierConfig[],
+  onChain: TierConfig[],
+  now: number
+): TierPlan[] => {
+  const onChainById = new Map(onChain.map((tier) => [tier.tierId, tier]))
+  const manifestIds = new Set(manifest.map((tier) => tier.tierId))
+
+  const plans: TierPlan[] = manifest.map((wanted) => {
+    const current = onChainById.get(wanted.tierId)
+    if (current) return planUpdate(current, wanted, now)
+
+    // new tier
+    return {
+      tierId: wanted.tierId,
+      action: 'create',
+      changes: TIER_FIELDS.map((field) => ({
+        field,
+        from: '',
+        to: formatField(wanted, field),
+      })),
+      calls: [{ method: 'setTier', args: setTierArgs(wanted) }],
+      errors: validateTier(wanted, now),
+    }
+  })
+
+  // tiers can't be removed, only reported
+  onChain
+    .filter((tier) => !manifestIds.has(tier.tierId))
+    .forEach((tier) => {
+      plans.push({
+        tierId: tier.tierId,
+        action: 'unmanaged',
+        changes: [],
+        calls: [],
+        errors: [],
+      })
+    })
+
+  return plans
+}
+
+// human readable plan
+export const formatTierPlans = (plans: TierPlan[]): string => {
+  const lines: string[] = []
+  plans.forEach((plan) => {
+    lines.push(`${plan.tierId}: ${plan.action}`)
+    plan.changes.forEach((c) => {
+      lines.push(
+        plan.action === 'create'
+          ? `  + ${c.field}: ${c.to}`
+          : `  ~ ${c.field}: ${c.from} -> ${c.to}`
+      )
+    })
+    plan.calls.forEach((call) => {
+      lines.push(`  > ${call.method}(${call.args.map(String).join(', ')})`)
+    })
+    plan.errors.forEach((e) => lines.push(`  ! ${e}`))
+  })
+  return lines.join('\n')
+}
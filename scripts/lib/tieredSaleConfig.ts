@@ -0,0 +1,278 @@
+import fs from 'fs'
+import { BigNumber, BigNumberish, Contract, ethers } from 'ethers'
+
+// limits mirrored from IFTieredSale
+export const MAX_BASE_OWNER_PERCENTAGE = 10
+export const MAX_MASTER_OWNER_PERCENTAGE = 2
+export const MAX_BONUS_PERCENTAGE = 5
+
+// mirrors IFTieredSale.Tier, plus the tier id it is stored under
+export type TierConfig = {
+  tierId: string
+  price: BigNumberish // price per node in payment token wei
+  maxTotalPurchasable: BigNumberish // 0 means no limit
+  maxAllocationPerWallet: BigNumberish // 0 means no limit
+  bonusPercentage: number
+  whitelistRootHash: string
+  isHalt: boolean
+  allowPromoCode: boolean
+  allowWalletPromoCode: boolean
+  startTime: number // unix timestamp
+  endTime: number // unix timestamp
+}
+
+// arguments of IFTieredSale.addPromoCode
+export type PromoCodeConfig = {
+  code: string
+  discountPercentage: number
+  promoCodeOwnerAddress: string
+  masterOwnerAddress: string
+  baseOwnerPercentageOverride: number
+  masterOwnerPercentageOverride: number
+}
+
+// everything needed to deploy and configure an IFTieredSale
+export type TieredSaleConfig = {
+  paymentToken: string
+  saleToken: string
+  startTime: number
+  endTime: number
+  operators: string[]
+  casher?: string
+  funder?: string
+  tiers: TierConfig[]
+  promoCodes: PromoCodeConfig[]
+}
+
+// a promo code of exactly 42 bytes is treated as a wallet code by the contract
+export const isWalletPromoCode = (code: string): boolean => {
+  return ethers.utils.toUtf8Bytes(code).length === 42
+}
+
+// fills in optional tier fields with the defaults used by the contract tests
+export const normalizeTier = (tier: TierConfig): TierConfig => {
+  return {
+    ...tier,
+    maxTotalPurchasable: tier.maxTotalPurchasable ?? 0,
+    maxAllocationPerWallet: tier.maxAllocationPerWallet ?? 0,
+    bonusPercentage: tier.bonusPercentage ?? 0,
+    whitelistRootHash: tier.whitelistRootHash ?? ethers.constants.HashZero,
+    isHalt: tier.isHalt ?? false,
+    allowPromoCode: tier.allowPromoCode ?? false,
+    allowWalletPromoCode: tier.allowWalletPromoCode ?? false,
+  }
+}
+
+// fills in optional promo code fields (no override by default)
+export const normalizePromoCode = (promo: PromoCodeConfig): PromoCodeConfig => {
+  return {
+    ...promo,
+    baseOwnerPercentageOverride: promo.baseOwnerPercentageOverride ?? 0,
+    masterOwnerPercentageOverride: promo.masterOwnerPercentageOverride ?? 0,
+  }
+}
+
+// `value` as a BigNumber, undefined when it is missing or not a number
+const toBigNumber = (value: unknown): BigNumber | undefined => {
+  try {
+    return BigNumber.from(value)
+  } catch (e) {
+    return undefined
+  }
+}
+
+const isPercentage = (value: unknown, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max
+
+// returns the reasons a tier would be rejected by IFTieredSale.setTier, or
+// could not be sent at all for a missing or mistyped field
+export const validateTier = (tier: TierConfig, now: number): string[] => {
+  const errors: string[] = []
+  if (typeof tier.tierId !== 'string' || !tier.tierId) errors.push('Invalid tier id')
+  const price = toBigNumber(tier.price)
+  if (!price || price.lte(0)) errors.push('Invalid price')
+  const maxTotal = toBigNumber(tier.maxTotalPurchasable)
+  if (!maxTotal || maxTotal.lt(0)) errors.push('Invalid max total purchasable')
+  const maxPerWallet = toBigNumber(tier.maxAllocationPerWallet)
+  if (!maxPerWallet || maxPerWallet.lt(0))
+    errors.push('Invalid max allocation per wallet')
+  if (!isPercentage(tier.bonusPercentage, MAX_BONUS_PERCENTAGE))
+    errors.push('Invalid bonus percentage')
+  if (!ethers.utils.isHexString(tier.whitelistRootHash, 32))
+    errors.push('Invalid whitelist root hash')
+  const flags = ['isHalt', 'allowPromoCode', 'allowWalletPromoCode'] as const
+  flags.forEach((flag) => {
+    if (typeof tier[flag] !== 'boolean') errors.push(`Invalid ${flag}, expected true or false`)
+  })
+  if (!Number.isInteger(tier.startTime)) errors.push('Invalid start time')
+  else if (tier.startTime <= now) errors.push('Invalid start time')
+  if (!Number.isInteger(tier.endTime) || !(tier.endTime > tier.startTime))
+    errors.push('Invalid end time')
+  return errors
+}
+
+// returns the reasons a promo code would be rejected by IFTieredSale.addPromoCode,
+// or could not be sent at all for a missing or mistyped field
+export const validatePromoCode = (promo: PromoCodeConfig): string[] => {
+  const errors: string[] = []
+  const code = typeof promo.code === 'string' ? promo.code : undefined
+  if (!code) errors.push('Invalid promo code')
+  if (!isPercentage(promo.discountPercentage, 100))
+    errors.push('Invalid discount percentage')
+  const owner = ethers.utils.isAddress(promo.promoCodeOwnerAddress)
+  if (!owner) errors.push('Invalid promo code owner address')
+  const master = ethers.utils.isAddress(promo.masterOwnerAddress)
+  if (!master) errors.push('Invalid master owner address')
+  if (
+    owner &&
+    master &&
+    promo.promoCodeOwnerAddress.toLowerCase() ===
+      promo.masterOwnerAddress.toLowerCase()
+  )
+    errors.push('Promo code owner and master owner cannot be the same')
+  if (!isPercentage(promo.baseOwnerPercentageOverride, MAX_BASE_OWNER_PERCENTAGE))
+    errors.push('Invalid base owner percentage')
+  if (!isPercentage(promo.masterOwnerPercentageOverride, MAX_MASTER_OWNER_PERCENTAGE))
+    errors.push('Invalid master owner percentage')
+  if (code && isWalletPromoCode(code))
+    errors.push('Address promo codes are not allowed')
+  return errors
+}
+
+// arguments of IFTieredSale.setTier, in order
+export const setTierArgs = (tier: TierConfig): unknown[] => {
+  return [
+    tier.tierId,
+    tier.price,
+    tier.maxTotalPurchasable,
+    tier.maxAllocationPerWallet,
+    tier.whitelistRootHash,
+    tier.bonusPercentage,
+    tier.isHalt,
+    tier.allowPromoCode,
+    tier.allowWalletPromoCode,
+    tier.startTime,
+    tier.endTime,
+  ]
+}
+
+// arguments of IFTieredSale.addPromoCode, in order
+export const addPromoCodeArgs = (promo: PromoCodeConfig): unknown[] => {
+  return [
+    promo.code,
+    promo.discountPercentage,
+    promo.promoCodeOwnerAddress,
+    promo.masterOwnerAddress,
+    promo.baseOwnerPercentageOverride,
+    promo.masterOwnerPercentageOverride,
+  ]
+}
+
+// validates a whole sale config, throws listing every problem found
+export const validateTieredSaleConfig = (
+  config: TieredSaleConfig,
+  now: number
+): void => {
+  const errors: string[] = []
+
+  if (!ethers.utils.isAddress(config.paymentToken))
+    errors.push('Invalid payment token address')
+  if (!ethers.utils.isAddress(config.saleToken))
+    errors.push('Invalid sale token address')
+  else if (
+    ethers.utils.isAddress(config.paymentToken) &&
+    config.paymentToken.toLowerCase() === config.saleToken.toLowerCase()
+  )
+    errors.push('saleToken = paymentToken')
+  if (!Number.isInteger(config.startTime)) errors.push('Invalid start timestamp')
+  else if (config.startTime <= now) errors.push('start timestamp too early')
+  if (!Number.isInteger(config.endTime)) errors.push('Invalid end timestamp')
+  else if (config.endTime <= config.startTime)
+    errors.push('end timestamp must be after start timestamp')
+  if (!Array.isArray(config.operators)) errors.push('operators must be a list')
+  else
+    config.operators.forEach((operator) => {
+      if (!ethers.utils.isAddress(operator) || operator === ethers.constants.AddressZero)
+        errors.push(`Invalid operator address: ${operator}`)
+    })
+  if (config.casher !== undefined && !ethers.utils.isAddress(config.casher))
+    errors.push('Invalid casher address')
+  if (
+    config.funder !== undefined &&
+    (!ethers.utils.isAddress(config.funder) || config.funder === ethers.constants.AddressZero)
+  )
+    errors.push('0x0 funder')
+
+  // entries without an id are named by position
+  const tierIds = new Set<string>()
+  if (!Array.isArray(config.tiers)) errors.push('tiers must be a list')
+  else
+    config.tiers.forEach((tier, i) => {
+      const name = tier.tierId || `#${i + 1}`
+      if (tier.tierId && tierIds.has(tier.tierId)) errors.push(`Duplicate tier: ${tier.tierId}`)
+      tierIds.add(tier.tierId)
+      validateTier(tier, now).forEach((e) => errors.push(`Tier ${name}: ${e}`))
+    })
+
+  const codes = new Set<string>()
+  if (!Array.isArray(config.promoCodes)) errors.push('promoCodes must be a list')
+  else
+    config.promoCodes.forEach((promo, i) => {
+      const name = promo.code || `#${i + 1}`
+      if (promo.code && codes.has(promo.code)) errors.push(`Duplicate promo code: ${promo.code}`)
+      codes.add(promo.code)
+      validatePromoCode(promo).forEach((e) => errors.push(`Promo code ${name}: ${e}`))
+    })
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid tiered sale config:\n  ${errors.join('\n  ')}`)
+  }
+}
+
+// reads a sale config from a JSON file, missing fields are left for
+// validateTieredSaleConfig to report
+export const readTieredSaleConfig = (file: string): TieredSaleConfig => {
+  const parsed: Partial<TieredSaleConfig> | null = JSON.parse(
+    fs.readFileSync(file, 'utf8')
+  )
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${file} does not hold a sale config object`)
+  }
+  // anything but a list is kept as is, for validateTieredSaleConfig to report
+  const { operators = [], tiers = [], promoCodes = [] } = parsed
+  return {
+    ...parsed,
+    operators,
+    tiers: Array.isArray(tiers) ? tiers.map(normalizeTier) : tiers,
+    promoCodes: Array.isArray(promoCodes)
+      ? promoCodes.map(normalizePromoCode)
+      : promoCodes,
+  } as TieredSaleConfig
+}
+
+// reads a tier from a deployed IFTieredSale in config form
+export const fetchTier = async (
+  sale: Contract,
+  tierId: string
+): Promise<TierConfig> => {
+  const tier = await sale.tiers(tierId)
+  return {
+    tierId,
+    price: tier.price,
+    maxTotalPurchasable: tier.maxTotalPurchasable,
+    maxAllocationPerWallet: tier.maxAllocationPerWallet,
+    bonusPercentage: tier.bonusPercentage,
+    whitelistRootHash: tier.whitelistRootHash,
+    isHalt: tier.isHalt,
+    allowPromoCode: tier.allowPromoCode,
+    allowWalletPromoCode: tier.allowWalletPromoCode,
+    startTime: tier.startTime.toNumber(),
+    endTime: tier.endTime.toNumber(),
+  }
+}
+
+// reads every tier listed by getAllTierIds, in on-chain order
+export const fetchTiers = async (sale: Contract): Promise<TierConfig[]> => {
+  const tierIds: string[] = await sale.getAllTierIds()
+  return Promise.all(tierIds.map((tierId) => fetchTier(sale, tierId)))
+}
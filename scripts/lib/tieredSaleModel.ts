@@ -0,0 +1,160 @@
+import { BigNumber } from 'ethers'
+import { isWalletPromoCode } from './tieredSaleConfig'
+import { QuotePromoCode, QuoteRates, QuoteTier, quotePurchase } from './tieredSaleQuote'
+
+export type ModelTier = QuoteTier & {
+  maxTotalPurchasable: number
+  maxAllocationPerWallet: number
+  allowPromoCode: boolean
+  allowWalletPromoCode: boolean
+}
+
+export type ModelPromoCode = {
+  discountPercentage: number
+  promoCodeOwnerAddress: string
+  masterOwnerAddress: string
+  baseOwnerPercentageOverride: number
+  masterOwnerPercentageOverride: number
+}
+
+// promo code accounting, as in the PromoCode struct
+export type ModelPromoCodeState = {
+  promoCodeOwnerEarnings: BigNumber
+  masterOwnerEarnings: BigNumber
+  totalPurchased: BigNumber
+}
+
+/**
+ * In-memory model of the IFTieredSale purchase economics: the same checks,
+ * in the same order and with the same revert messages as the purchase
+ * functions, and the reward accounting of quotePurchase. Whitelists, sale
+ * windows and halts are not modelled.
+ */
+export class TieredSaleModel {
+  readonly rates: QuoteRates
+  readonly tiers = new Map<string, ModelTier>()
+  readonly promoCodes = new Map<string, ModelPromoCode & ModelPromoCodeState>()
+  readonly codePurchaseAmount = new Map<string, BigNumber>()
+  readonly saleTokenPurchasedByTier = new Map<string, BigNumber>()
+  readonly purchasedAmountPerTier = new Map<string, BigNumber>() // `${tierId}\n${buyer}`
+  totalPaymentReceived = BigNumber.from(0)
+  totalRewardsUnclaimed = BigNumber.from(0)
+
+  constructor(rates: QuoteRates) {
+    this.rates = rates
+  }
+
+  setTier(tierId: string, tier: ModelTier): void {
+    this.tiers.set(tierId, tier)
+  }
+
+  addPromoCode(code: string, promo: ModelPromoCode): void {
+    if (this.promoCodes.has(code)) throw new Error('Promo code already exists')
+    this.promoCodes.set(code, { ...promo, ...this.emptyState() })
+  }
+
+  // whitelistedPurchaseInTier / whitelistedPurchaseInTierWithCode
+  purchase(buyer: string, tierId: string, amount: number, promoCode?: string): void {
+    const tier = this.getTier(tierId)
+    if (promoCode === undefined) {
+      this.execute(buyer, tierId, amount, quotePurchase(tier, amount, this.rates).totalCost)
+      return
+    }
+
+    if (isWalletPromoCode(promoCode)) {
+      throw new Error('Purchase with whitelistedPurchaseInTierWithWalletCode')
+    }
+    if (!tier.allowPromoCode) throw new Error('Promo code is not allowed for this tier')
+    const promo = this.promoCodes.get(promoCode)
+    if (!promo || promo.discountPercentage === 0) throw new Error('Invalid promo code')
+
+    const terms: QuotePromoCode = { kind: 'named', ...promo }
+    const quote = quotePurchase(tier, amount, this.rates, terms)
+    this.execute(buyer, tierId, amount, quote.totalCost)
+
+    this.addCodePurchase(promoCode, quote.totalCost)
+    promo.promoCodeOwnerEarnings = promo.promoCodeOwnerEarnings.add(quote.ownerEarnings)
+    promo.masterOwnerEarnings = promo.masterOwnerEarnings.add(quote.masterReward)
+    promo.totalPurchased = promo.totalPurchased.add(quote.totalCost)
+    this.totalRewardsUnclaimed = this.totalRewardsUnclaimed.add(quote.totalRewards)
+  }
+
+  // whitelistedPurchaseInTierWithWalletCode
+  purchaseWithWalletCode(buyer: string, tierId: string, amount: number, wallet: string): void {
+    const tier = this.getTier(tierId)
+    if (!tier.allowWalletPromoCode) throw new Error('Promo code is not allowed for this tier')
+    if (buyer.toLowerCase() === wallet.toLowerCase()) {
+      throw new Error('Cannot purchase with own wallet address promo code')
+    }
+    if (!this.hasPurchased(wallet)) throw new Error('Promo code address has not purchased a node')
+
+    const quote = quotePurchase(tier, amount, this.rates, { kind: 'wallet' })
+    this.execute(buyer, tierId, amount, quote.totalCost)
+
+    // addressToString gives the lowercase hex address
+    const code = wallet.toLowerCase()
+    const promo = this.promoCodes.get(code) || {
+      discountPercentage: 0,
+      promoCodeOwnerAddress: wallet,
+      masterOwnerAddress: '0x0000000000000000000000000000000000000000',
+      baseOwnerPercentageOverride: 0,
+      masterOwnerPercentageOverride: 0,
+      ...this.emptyState(),
+    }
+    this.promoCodes.set(code, promo)
+    this.addCodePurchase(code, quote.totalCost)
+    promo.promoCodeOwnerEarnings = promo.promoCodeOwnerEarnings.add(quote.ownerEarnings)
+    promo.totalPurchased = promo.totalPurchased.add(quote.totalCost)
+    this.totalRewardsUnclaimed = this.totalRewardsUnclaimed.add(quote.totalRewards)
+  }
+
+  // validateWalletPromoCode
+  hasPurchased(address: string): boolean {
+    return Array.from(this.tiers.keys()).some((tierId) =>
+      this.purchasedAmount(tierId, address).gt(0)
+    )
+  }
+
+  purchasedAmount(tierId: string, buyer: string): BigNumber {
+    return this.purchasedAmountPerTier.get(`${tierId}\n${buyer.toLowerCase()}`) || BigNumber.from(0)
+  }
+
+  private getTier(tierId: string): ModelTier {
+    const tier = this.tiers.get(tierId)
+    if (!tier) throw new Error(`Unknown tier ${tierId}`)
+    return tier
+  }
+
+  // executePurchase
+  private execute(buyer: string, tierId: string, amount: number, totalCost: BigNumber): void {
+    const tier = this.getTier(tierId)
+    const purchased = this.purchasedAmount(tierId, buyer)
+    const sold = this.saleTokenPurchasedByTier.get(tierId) || BigNumber.from(0)
+    if (amount <= 0) throw new Error('Can only purchase non-zero amounts')
+    if (tier.maxAllocationPerWallet !== 0 && purchased.add(amount).gt(tier.maxAllocationPerWallet)) {
+      throw new Error('Amount exceeds wallet\'s maximum allocation for this tier')
+    }
+    if (tier.maxTotalPurchasable !== 0 && sold.add(amount).gt(tier.maxTotalPurchasable)) {
+      throw new Error('Amount exceeds tier\'s maximum total purchasable')
+    }
+
+    this.totalPaymentReceived = this.totalPaymentReceived.add(totalCost)
+    this.purchasedAmountPerTier.set(`${tierId}\n${buyer.toLowerCase()}`, purchased.add(amount))
+    this.saleTokenPurchasedByTier.set(tierId, sold.add(amount))
+  }
+
+  private addCodePurchase(code: string, totalCost: BigNumber): void {
+    this.codePurchaseAmount.set(
+      code,
+      (this.codePurchaseAmount.get(code) || BigNumber.from(0)).add(totalCost)
+    )
+  }
+
+  private emptyState(): ModelPromoCodeState {
+    return {
+      promoCodeOwnerEarnings: BigNumber.from(0),
+      masterOwnerEarnings: BigNumber.from(0),
+      totalPurchased: BigNumber.from(0),
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { BigNumber, BigNumberish, Contract, ethers } from 'ethers'
+import { fetchTier, isWalletPromoCode } from './tieredSaleConfig'
+
+// contract wide percentages, as set by updateRewards / updateAddressRewards / updateAddressDiscount
+export type QuoteRates = {
+  baseOwnerPercentage: number
+  masterOwnerPercentage: number
+  addressPromoCodePercentage: number
+  addressPromoCodeDiscountPercentage: number
+}
+
+// the promo code a purchase uses, if any
+export type QuotePromoCode =
+  | {
+      kind: 'named'
+      discountPercentage: number
+      baseOwnerPercentageOverride: number
+      masterOwnerPercentageOverride: number
+    }
+  | { kind: 'wallet' }
+
+export type QuoteTier = {
+  price: BigNumberish
+  bonusPercentage: number
+}
+
+// all amounts in payment token wei
+export type PurchaseQuote = {
+  discountPercentage: number
+  unitPrice: BigNumber // discounted
+  totalCost: BigNumber // transferred from the buyer, added to codePurchaseAmount
+  ownerReward: BigNumber
+  masterReward: BigNumber
+  bonus: BigNumber // tier bonus, paid to the promo code owner on top of ownerReward
+  ownerEarnings: BigNumber // ownerReward + bonus, added to promoCodeOwnerEarnings
+  totalRewards: BigNumber // added to totalRewardsUnclaimed
+}
+
+/**
+ * Quotes a purchase exactly as IFTieredSale settles it: calculateDiscount,
+ * then _updatePromoCodeRewards for named codes or
+ * _updateWalletPromoCodeRewards for wallet codes. Every percentage is applied
+ * with integer division, in the same order as the contract.
+ */
+export const quotePurchase = (
+  tier: QuoteTier,
+  quantity: BigNumberish,
+  rates: QuoteRates,
+  promoCode?: QuotePromoCode
+): PurchaseQuote => {
+  const zero = BigNumber.from(0)
+  const discountPercentage = !promoCode
+    ? 0
+    : promoCode.kind === 'wallet'
+    ? rates.addressPromoCodeDiscountPercentage
+    : promoCode.discountPercentage
+
+  const unitPrice = BigNumber.from(tier.price).mul(100 - discountPercentage).div(100)
+  const totalCost = unitPrice.mul(quantity)
+
+  let ownerReward = zero
+  let masterReward = zero
+  let bonus = zero
+  if (promoCode && promoCode.kind === 'named') {
+    // an override of 0 means the contract default
+    const ownerPercentage =
+      promoCode.baseOwnerPercentageOverride > 0
+        ? promoCode.baseOwnerPercentageOverride
+        : rates.baseOwnerPercentage
+    const masterPercentage =
+      promoCode.masterOwnerPercentageOverride > 0
+        ? promoCode.masterOwnerPercentageOverride
+        : rates.masterOwnerPercentage
+    ownerReward = totalCost.mul(ownerPercentage).div(100)
+    masterReward = totalCost.mul(masterPercentage).div(100)
+    bonus = totalCost.mul(tier.bonusPercentage).div(100)
+  } else if (promoCode && promoCode.kind === 'wallet') {
+    // wallet codes have no master owner and no tier bonus
+    ownerReward = totalCost.mul(rates.addressPromoCodePercentage).div(100)
+  }
+
+  return {
+    discountPercentage,
+    unitPrice,
+    totalCost,
+    ownerReward,
+    masterReward,
+    bonus,
+    ownerEarnings: ownerReward.add(bonus),
+    totalRewards: ownerReward.add(bonus).add(masterReward),
+  }
+}
+
+export const fetchQuoteRates = async (sale: Contract): Promise<QuoteRates> => {
+  return {
+    baseOwnerPercentage: await sale.baseOwnerPercentage(),
+    masterOwnerPercentage: await sale.masterOwnerPercentage(),
+    addressPromoCodePercentage: await sale.addressPromoCodePercentage(),
+    addressPromoCodeDiscountPercentage: await sale.addressPromoCodeDiscountPercentage(),
+  }
+}
+
+/**
+ * Quotes a purchase on a deployed sale. `promoCode` is a named code or a
+ * wallet address; purchases the contract would reject for promo code reasons
+ * throw with the contract's revert message.
+ */
+export const quoteFromContract = async (
+  sale: Contract,
+  tierId: string,
+  quantity: BigNumberish,
+  promoCode?: string,
+  buyer?: string
+): Promise<PurchaseQuote> => {
+  const tierIds: string[] = await sale.getAllTierIds()
+  if (!tierIds.includes(tierId)) {
+    throw new Error(`Tier ${tierId} does not exist`)
+  }
+  const tier = await fetchTier(sale, tierId)
+  if (BigNumber.from(quantity).lte(0)) {
+    throw new Error('Can only purchase non-zero amounts')
+  }
+  const rates = await fetchQuoteRates(sale)
+
+  if (!promoCode) {
+    return quotePurchase(tier, quantity, rates)
+  }
+
+  if (isWalletPromoCode(promoCode)) {
+    if (!ethers.utils.isAddress(promoCode)) {
+      throw new Error(`Wallet promo code ${promoCode} is not an address`)
+    }
+    if (!tier.allowWalletPromoCode) {
+      throw new Error('Promo code is not allowed for this tier')
+    }
+    if (buyer && buyer.toLowerCase() === promoCode.toLowerCase()) {
+      throw new Error('Cannot purchase with own wallet address promo code')
+    }
+    if (!(await sale.validateWalletPromoCode(promoCode))) {
+      throw new Error('Promo code address has not purchased a node')
+    }
+    return quotePurchase(tier, quantity, rates, { kind: 'wallet' })
+  }
+
+  if (!tier.allowPromoCode) {
+    throw new Error('Promo code is not allowed for this tier')
+  }
+  const info = await sale.promoCodes(promoCode)
+  if (info.discountPercentage === 0) {
+    throw new Error('Invalid promo code')
+  }
+  return quotePurchase(tier, quantity, rates, {
+    kind: 'named',
+    discountPercentage: info.discountPercentage,
+    baseOwnerPercentageOverride: info.baseOwnerPercentageOverride,
+    masterOwnerPercentageOverride: info.masterOwnerPercentageOverride,
+  })
+}
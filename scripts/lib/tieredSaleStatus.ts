@@ -0,0 +1,137 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { ERC20_ABI } from './erc20'
+import { fetchTiers, TierConfig } from './tieredSaleConfig'
+
+export type TierPhase = 'upcoming' | 'active' | 'ended'
+
+export type TierStatus = {
+  tier: TierConfig
+  sold: BigNumber
+  soldPercentage?: number // undefined when the tier has no limit
+  phase: TierPhase
+  secondsLeft: number // until start when upcoming, until end when active
+}
+
+export type SaleStatus = {
+  blockNumber: number
+  timestamp: number
+  tiers: TierStatus[]
+  totalPaymentReceived: BigNumber
+  totalRewardsUnclaimed: BigNumber
+  paymentTokenBalance: BigNumber
+  paymentTokenSymbol: string
+  paymentTokenDecimals: number
+  claimRewardsEnabled: boolean
+}
+
+// where a tier is in its sale window, as checked by executePurchase
+export const tierPhase = (tier: TierConfig, now: number): TierPhase => {
+  if (now < tier.startTime) return 'upcoming'
+  if (now > tier.endTime) return 'ended'
+  return 'active'
+}
+
+// e.g. 1d 2h 3m
+export const formatDuration = (seconds: number): string => {
+  if (seconds <= 0) return '-'
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return [days && `${days}d`, hours && `${hours}h`, `${minutes}m`]
+    .filter(Boolean)
+    .join(' ')
+}
+
+// status of a tier that sold `sold` sale tokens, at `now`
+export const tierStatus = (
+  tier: TierConfig,
+  sold: BigNumber,
+  now: number
+): TierStatus => {
+  const max = BigNumber.from(tier.maxTotalPurchasable)
+  const phase = tierPhase(tier, now)
+  return {
+    tier,
+    sold,
+    soldPercentage: max.isZero()
+      ? undefined
+      : sold.mul(10000).div(max).toNumber() / 100,
+    phase,
+    secondsLeft:
+      phase === 'upcoming'
+        ? tier.startTime - now
+        : phase === 'active'
+        ? tier.endTime - now
+        : 0,
+  }
+}
+
+// reads every tier and the contract level totals at the latest block
+export const fetchSaleStatus = async (sale: Contract): Promise<SaleStatus> => {
+  const block = await sale.provider.getBlock('latest')
+  const paymentToken = new Contract(
+    await sale.paymentToken(),
+    ERC20_ABI,
+    sale.provider
+  )
+
+  const tiers = await fetchTiers(sale)
+  const tierStatuses = await Promise.all(
+    tiers.map(async (tier) =>
+      tierStatus(
+        tier,
+        await sale.saleTokenPurchasedByTier(tier.tierId),
+        block.timestamp
+      )
+    )
+  )
+
+  return {
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    tiers: tierStatuses,
+    totalPaymentReceived: await sale.totalPaymentReceived(),
+    totalRewardsUnclaimed: await sale.totalRewardsUnclaimed(),
+    paymentTokenBalance: await paymentToken.balanceOf(sale.address),
+    paymentTokenSymbol: await paymentToken.symbol(),
+    paymentTokenDecimals: await paymentToken.decimals(),
+    claimRewardsEnabled: await sale.claimRewardsEnabled(),
+  }
+}
+
+// human readable status table
+export const formatSaleStatus = (status: SaleStatus): string => {
+  const amount = (value: BigNumber) =>
+    `${ethers.utils.formatUnits(value, status.paymentTokenDecimals)} ${status.paymentTokenSymbol}`
+
+  const lines: string[] = [
+    `Block ${status.blockNumber} at ${new Date(status.timestamp * 1000).toISOString()}`,
+    '',
+  ]
+  status.tiers.forEach((s) => {
+    const max = BigNumber.from(s.tier.maxTotalPurchasable)
+    lines.push(
+      [
+        s.tier.tierId,
+        `price ${amount(BigNumber.from(s.tier.price))}`,
+        `sold ${s.sold.toString()} / ${max.isZero() ? 'no limit' : max.toString()}` +
+          (s.soldPercentage !== undefined ? ` (${s.soldPercentage}%)` : ''),
+        s.tier.isHalt ? 'HALTED' : 'running',
+        s.phase,
+        s.phase === 'upcoming'
+          ? `starts in ${formatDuration(s.secondsLeft)}`
+          : s.phase === 'active'
+          ? `ends in ${formatDuration(s.secondsLeft)}`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(' | ')
+    )
+  })
+  lines.push('')
+  lines.push(`Total payment received: ${amount(status.totalPaymentReceived)}`)
+  lines.push(`Total rewards unclaimed: ${amount(status.totalRewardsUnclaimed)}`)
+  lines.push(`Payment token balance: ${amount(status.paymentTokenBalance)}`)
+  lines.push(`Claim rewards enabled: ${status.claimRewardsEnabled}`)
+  return lines.join('\n')
+}
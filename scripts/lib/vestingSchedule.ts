@@ -0,0 +1,251 @@
+import fs from 'fs'
+import { BigNumber, BigNumberish } from 'ethers'
+import CsvParse from 'csv-parse/lib/sync'
+
+// IFVestable.TEN_YEARS, a vesting must end less than this after withdrawTime
+export const TEN_YEARS = 315742060
+
+// input length limit of setCliffPeriod
+export const MAX_CLIFF_ENTRIES = 100
+
+// one IFVestable.Cliff
+export type CliffEntry = {
+  claimTime: number
+  pct: number
+}
+
+export type Interval = {
+  count: number
+  unit: 'day' | 'month'
+}
+
+export type CliffScheduleSpec = {
+  tge: number // unix timestamp of the first unlock
+  tgePct: number // percent unlocked at tge, 0 for none
+  cliff: Interval // wait after tge before the steps start
+  step: Interval
+  steps: number // unlocks after the cliff, sharing what tge leaves
+}
+
+// '3m' for 3 calendar months, '30d' for 30 days
+export const parseInterval = (value: string): Interval => {
+  const match = value.trim().match(/^(\d+)\s*(d|m)$/)
+  if (!match) {
+    throw new Error(`Invalid interval ${value}, expected <n>d or <n>m`)
+  }
+  return { count: Number(match[1]), unit: match[2] === 'd' ? 'day' : 'month' }
+}
+
+/**
+ * `time` moved forward by `times` intervals. Months are calendar months in
+ * UTC with the day clamped to the month's length, and are counted from
+ * `time` itself, so Jan 31 + 1m is Feb 28 (or 29) while Jan 31 + 2m is
+ * Mar 31.
+ */
+export const addInterval = (
+  time: number,
+  interval: Interval,
+  times = 1
+): number => {
+  const count = interval.count * times
+  if (interval.unit === 'day') return time + count * 86400
+
+  const date = new Date(time * 1000)
+  const months = date.getUTCMonth() + count
+  const year = date.getUTCFullYear() + Math.floor(months / 12)
+  const month = months % 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return (
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDay),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds()
+    ) / 1000
+  )
+}
+
+/**
+ * Cliffs for "tgePct at tge, then `steps` unlocks every `step` once `cliff`
+ * has passed": the first step unlocks at tge + cliff + step. The steps share
+ * 100 - tgePct in whole percents, the remainder going to the last step.
+ * Nothing is validated here, see validateCliffSchedule.
+ */
+export const buildCliffSchedule = (spec: CliffScheduleSpec): CliffEntry[] => {
+  const entries: CliffEntry[] = []
+  if (spec.tgePct > 0) entries.push({ claimTime: spec.tge, pct: spec.tgePct })
+  if (spec.steps === 0) return entries
+
+  // counted from tge when cliff and step share a unit, so a month end cliff
+  // does not pull the later steps to an earlier day
+  const stepTime = (i: number) =>
+    spec.cliff.unit === spec.step.unit
+      ? addInterval(spec.tge, {
+          count: spec.cliff.count + spec.step.count * i,
+          unit: spec.step.unit,
+        })
+      : addInterval(addInterval(spec.tge, spec.cliff), spec.step, i)
+
+  const remaining = 100 - spec.tgePct
+  const pct = Math.floor(remaining / spec.steps)
+  for (let i = 1; i <= spec.steps; i++) {
+    entries.push({
+      claimTime: stepTime(i),
+      pct: i === spec.steps ? remaining - pct * (spec.steps - 1) : pct,
+    })
+  }
+  return entries
+}
+
+// unix timestamp, or a date Date.parse reads such as 2025-01-31T00:00:00Z
+export const parseTimestamp = (value: string): number | undefined => {
+  if (/^\d+$/.test(value)) return Number(value)
+  const ms = Date.parse(value)
+  return isNaN(ms) ? undefined : Math.floor(ms / 1000)
+}
+
+/**
+ * Reads cliffs from a CSV of time,percent rows, times as unix timestamps or
+ * ISO 8601 dates. The header row is optional. Rows are kept in file order,
+ * validateCliffSchedule reports any that are out of order.
+ */
+export const readCliffScheduleCsv = (file: string): CliffEntry[] => {
+  const records: string[][] = CsvParse(fs.readFileSync(file, 'utf8'), {
+    skip_empty_lines: true,
+    relax_column_count: true,
+  })
+  const hasHeader =
+    records.length > 0 && parseTimestamp((records[0][0] || '').trim()) === undefined
+  return records.slice(hasHeader ? 1 : 0).map((record, i) => {
+    const line = i + (hasHeader ? 2 : 1)
+    const [time = '', pct = ''] = record.map((value) => value.trim())
+    const claimTime = parseTimestamp(time)
+    if (claimTime === undefined) {
+      throw new Error(`${file} line ${line}: invalid time ${time}`)
+    }
+    if (!/^\d+$/.test(pct)) {
+      throw new Error(`${file} line ${line}: invalid percent ${pct}`)
+    }
+    return { claimTime, pct: Number(pct) }
+  })
+}
+
+const iso = (time: number): string => new Date(time * 1000).toISOString()
+
+// returns the reasons setCliffPeriod would reject `entries`
+export const validateCliffSchedule = (
+  entries: CliffEntry[],
+  withdrawTime: number
+): string[] => {
+  const errors: string[] = []
+  if (entries.length === 0) return ['Schedule is empty']
+  if (entries.length > MAX_CLIFF_ENTRIES) {
+    errors.push(
+      `${entries.length} unlocks, setCliffPeriod takes at most ${MAX_CLIFF_ENTRIES}`
+    )
+  }
+  entries.forEach((entry, i) => {
+    if (!Number.isInteger(entry.pct) || entry.pct < 0 || entry.pct > 100) {
+      errors.push(`Unlock ${i + 1}: invalid percent ${entry.pct}`)
+    }
+    if (i > 0 && entry.claimTime <= entries[i - 1].claimTime) {
+      errors.push(
+        `Unlock ${i + 1}: ${iso(entry.claimTime)} is not after the previous unlock`
+      )
+    }
+  })
+  if (entries[0].claimTime <= withdrawTime) {
+    errors.push(
+      `First unlock ${iso(entries[0].claimTime)} is not after withdrawTime ${iso(withdrawTime)}`
+    )
+  }
+  const last = entries[entries.length - 1].claimTime
+  if (last >= withdrawTime + TEN_YEARS) {
+    errors.push(`Last unlock ${iso(last)} is not within 10 years of withdrawTime`)
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.pct, 0)
+  if (total !== 100) errors.push(`Percentages add up to ${total}, not 100`)
+  return errors
+}
+
+// arguments of setCliffPeriod, in order
+export const cliffPeriodArgs = (entries: CliffEntry[]): [number[], number[]] => [
+  entries.map((entry) => entry.claimTime),
+  entries.map((entry) => entry.pct),
+]
+
+// one line per unlock with the running total
+export const formatCliffSchedule = (entries: CliffEntry[]): string => {
+  let total = 0
+  return entries
+    .map((entry, i) => {
+      total += entry.pct
+      return `${i + 1}. ${iso(entry.claimTime)} (${entry.claimTime}) ${entry.pct}%, total ${total}%`
+    })
+    .join('\n')
+}
+
+// returns the reasons setLinearVestingEndTime would reject `endTime`
+export const validateLinearVestingEnd = (
+  endTime: number,
+  withdrawTime: number
+): string[] => {
+  const errors: string[] = []
+  if (endTime <= withdrawTime) {
+    errors.push(`End ${iso(endTime)} is not after withdrawTime ${iso(withdrawTime)}`)
+  }
+  if (endTime >= withdrawTime + TEN_YEARS) {
+    errors.push(`End ${iso(endTime)} is not within 10 years of withdrawTime`)
+  }
+  return errors
+}
+
+export type UnlockPoint = {
+  time: number
+  unlocked: BigNumber
+}
+
+/**
+ * What a buyer of `allocation` who has not claimed yet can claim each day
+ * from withdrawTime, with the contract's rounding down, and everything at
+ * `endTime`.
+ */
+export const linearUnlockCurve = (
+  withdrawTime: number,
+  endTime: number,
+  allocation: BigNumberish
+): UnlockPoint[] => {
+  const total = BigNumber.from(allocation)
+  const points: UnlockPoint[] = []
+  for (let time = withdrawTime; time < endTime; time += 86400) {
+    points.push({
+      time,
+      unlocked: total.mul(time - withdrawTime).div(endTime - withdrawTime),
+    })
+  }
+  points.push({ time: endTime, unlocked: total })
+  return points
+}
+
+/**
+ * One line per point, or about `maxLines` evenly picked points and the last
+ * one for a long curve.
+ */
+export const formatUnlockCurve = (
+  points: UnlockPoint[],
+  maxLines = 30
+): string => {
+  const total = points[points.length - 1].unlocked
+  const every = Math.ceil(points.length / maxLines)
+  return points
+    .filter((_, i) => i % every === 0 || i === points.length - 1)
+    .map((point) => {
+      const pct = total.isZero()
+        ? '0.00'
+        : (point.unlocked.mul(10000).div(total).toNumber() / 100).toFixed(2)
+      return `${iso(point.time)} ${point.unlocked} (${pct}%)`
+    })
+    .join('\n')
+}
@@ -0,0 +1,236 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { MerkleTree } from './merkleTree'
+
+// an address and the allocation it is whitelisted for
+export type WhitelistEntry = {
+  address: string
+  allocation: BigNumberish
+}
+
+// a merkle whitelist that serves the proof of any entry by address
+export type AllocationWhitelist = {
+  root: string
+  entries: WhitelistEntry[]
+  tree: MerkleTree
+  getProof: (address: string) => string[]
+}
+
+// packs an entry the way IFFixedSale.checkWhitelist and
+// IFTieredSale.checkTierWhitelist do: abi.encodePacked(user, allocation)
+export const packWhitelistLeaf = (
+  address: string,
+  allocation: BigNumberish
+): string => {
+  return ethers.utils.solidityPack(
+    ['address', 'uint256'],
+    [address.toLowerCase(), allocation]
+  )
+}
+
+// parses whitelist data from JSON. Accepts a list of addresses
+// (with `defaultAllocation`), a list of { address, allocation } objects,
+// or an object mapping address => allocation
+export const parseWhitelistEntries = (
+  parsed: unknown,
+  defaultAllocation?: BigNumberish
+): WhitelistEntry[] => {
+  const withDefault = (address: string): WhitelistEntry => {
+    if (defaultAllocation === undefined) {
+      throw new Error(`No allocation for ${address}`)
+    }
+    return { address, allocation: defaultAllocation }
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed.map((item) =>
+      typeof item === 'string'
+        ? withDefault(item)
+        : { address: item.address, allocation: item.allocation }
+    )
+  }
+  if (parsed && typeof parsed === 'object') {
+    return Object.entries(parsed as Record<string, BigNumberish>).map(
+      ([address, allocation]) => ({ address, allocation })
+    )
+  }
+  throw new Error('Unsupported whitelist format')
+}
+
+// builds the allocation whitelist tree, hashing every entry once
+export const buildAllocationWhitelist = (
+  entries: WhitelistEntry[]
+): AllocationWhitelist => {
+  if (entries.length === 0) {
+    throw new Error('Whitelist is empty')
+  }
+
+  // validate and normalize
+  const seen = new Set<string>()
+  const normalized = entries.map((entry) => {
+    if (!ethers.utils.isAddress(entry.address)) {
+      throw new Error(`Invalid address: ${entry.address}`)
+    }
+    const address = entry.address.toLowerCase()
+    if (seen.has(address)) {
+      throw new Error(`Duplicate address: ${entry.address}`)
+    }
+    seen.add(address)
+    return { address, allocation: BigNumber.from(entry.allocation).toString() }
+  })
+
+  // lowercase address => packed leaf
+  const leaves = new Map(
+    normalized.map((e) => [e.address, packWhitelistLeaf(e.address, e.allocation)])
+  )
+  const tree = new MerkleTree(Array.from(leaves.values()))
+
+  const getProof = (address: string): string[] => {
+    const leaf = leaves.get(address.toLowerCase())
+    if (leaf === undefined) {
+      throw new Error(`Address not whitelisted: ${address}`)
+    }
+    return tree.getProofByItem(leaf)
+  }
+
+  return { root: tree.root, entries: normalized, tree, getProof }
+}
+
+// off-chain equivalent of MerkleProof.verify on a packed (address, allocation) leaf
+export const verifyWhitelistProof = (
+  root: string,
+  address: string,
+  allocation: BigNumberish,
+  proof: string[]
+): boolean => {
+  let computed = ethers.utils.keccak256(packWhitelistLeaf(address, allocation))
+  proof.forEach((node) => {
+    const [left, right] =
+      computed.toLowerCase() <= node.toLowerCase()
+        ? [computed, node]
+        : [node, computed]
+    computed = ethers.utils.keccak256(ethers.utils.concat([left, right]))
+  })
+  return computed.toLowerCase() === root.toLowerCase()
+}
+
+export type AllocationChange = {
+  address: string
+  from: string
+  to: string
+}
+
+// what changed between two revisions of a whitelist
+export type WhitelistDiff = {
+  oldRoot: string
+  newRoot: string
+  added: WhitelistEntry[]
+  removed: WhitelistEntry[]
+  changed: AllocationChange[]
+}
+
+// compares two whitelists by lowercase address
+export const diffWhitelists = (
+  oldWhitelist: AllocationWhitelist,
+  newWhitelist: AllocationWhitelist
+): WhitelistDiff => {
+  const oldByAddress = new Map(
+    oldWhitelist.entries.map((e) => [e.address.toLowerCase(), e])
+  )
+  const newByAddress = new Map(
+    newWhitelist.entries.map((e) => [e.address.toLowerCase(), e])
+  )
+
+  const diff: WhitelistDiff = {
+    oldRoot: oldWhitelist.root,
+    newRoot: newWhitelist.root,
+    added: [],
+    removed: [],
+    changed: [],
+  }
+  newWhitelist.entries.forEach((entry) => {
+    const previous = oldByAddress.get(entry.address.toLowerCase())
+    if (!previous) {
+      diff.added.push(entry)
+    } else if (!BigNumber.from(previous.allocation).eq(entry.allocation)) {
+      diff.changed.push({
+        address: entry.address,
+        from: BigNumber.from(previous.allocation).toString(),
+        to: BigNumber.from(entry.allocation).toString(),
+      })
+    }
+  })
+  oldWhitelist.entries.forEach((entry) => {
+    if (!newByAddress.has(entry.address.toLowerCase())) diff.removed.push(entry)
+  })
+  return diff
+}
+
+// addresses whose allocation went down in the new revision (removed ones drop to 0),
+// the only ones that can end up below what they already purchased
+export const reducedAllocations = (diff: WhitelistDiff): AllocationChange[] => {
+  return [
+    ...diff.changed.filter((c) => BigNumber.from(c.to).lt(c.from)),
+    ...diff.removed.map((e) => ({
+      address: e.address,
+      from: BigNumber.from(e.allocation).toString(),
+      to: '0',
+    })),
+  ]
+}
+
+// one whitelist root compared with its local file
+export type RootCheck = {
+  tierId: string // '' for a fixed sale
+  local?: string // undefined without local file
+  onChain?: string // undefined when the tier is not on chain
+  ok: boolean
+}
+
+/**
+ * Compares on-chain roots with the roots of the local files, both by tier id
+ * ('' for a fixed sale). A tier without local file is expected to be public
+ * and a local file of a tier that is not on chain never matches. On-chain
+ * tiers come first, in order.
+ */
+export const compareWhitelistRoots = (
+  localRoots: Record<string, string>,
+  onChainRoots: Record<string, string>
+): RootCheck[] => {
+  const checks: RootCheck[] = Object.keys(onChainRoots).map((tierId) => {
+    const local: string | undefined = localRoots[tierId]
+    const onChain = onChainRoots[tierId]
+    const expected = local ?? ethers.constants.HashZero
+    return {
+      tierId,
+      local,
+      onChain,
+      ok: expected.toLowerCase() === onChain.toLowerCase(),
+    }
+  })
+  Object.keys(localRoots)
+    .filter((tierId) => onChainRoots[tierId] === undefined)
+    .forEach((tierId) =>
+      checks.push({ tierId, local: localRoots[tierId], ok: false })
+    )
+  return checks
+}
+
+// one line per root, OK, MISMATCH or MISSING for a tier that is not on chain
+export const formatRootChecks = (checks: RootCheck[]): string => {
+  return checks
+    .map((check) => {
+      const name = check.tierId || 'sale'
+      if (check.onChain === undefined) {
+        return `MISSING  ${name} has a local file but is not on chain`
+      }
+      return [
+        check.ok ? 'OK      ' : 'MISMATCH',
+        name,
+        'local:',
+        check.local ?? '(no file, expecting public)',
+        'on-chain:',
+        check.onChain,
+      ].join(' ')
+    })
+    .join('\n')
+}
@@ -0,0 +1,283 @@
+import fs from 'fs'
+import path from 'path'
+import CsvParse from 'csv-parse/lib/sync'
+import { BigNumber, ethers } from 'ethers'
+import { WhitelistEntry } from './whitelist'
+
+// how to combine two rows for the same address
+export type DuplicatePolicy = 'sum' | 'max' | 'error'
+
+// a row as found in a source file, before validation
+export type WhitelistRow = {
+  address: string
+  allocation?: string
+  source: string // file:line, for error messages
+}
+
+// a whitelist file, or rows given some other way (e.g. on the command line)
+export type WhitelistSource = string | { name: string; rows: WhitelistRow[] }
+
+export type IngestOptions = {
+  include: WhitelistSource[] // lists to union
+  intersect?: WhitelistSource[] // lists every address must also be in
+  exclude?: WhitelistSource[] // lists of addresses to remove
+  duplicates?: DuplicatePolicy
+  defaultAllocation?: string // for rows without an allocation
+}
+
+export type IngestReport = {
+  files: { name: string; rows: number; duplicates: number }[]
+  steps: { step: string; count: number }[]
+  entryCount: number
+  totalAllocation: string
+}
+
+// reads rows from a CSV (address[,allocation], or any columns under a header
+// naming `address` and optionally `allocation`) or a JSON file (list of
+// addresses, list of { address, allocation } or { address: allocation })
+export const readWhitelistRows = (file: string): WhitelistRow[] => {
+  const content = fs.readFileSync(file, 'utf8')
+  const name = path.basename(file)
+
+  if (path.extname(file).toLowerCase() === '.csv') {
+    const records: string[][] = CsvParse(content, {
+      skip_empty_lines: true,
+      trim: true,
+      relax_column_count: true,
+    })
+    const hasHeader =
+      records.length > 0 && records[0].some((h) => h.toLowerCase() === 'address')
+    const header = hasHeader ? records[0].map((h) => h.toLowerCase()) : ['address', 'allocation']
+    const addressCol = header.indexOf('address')
+    const allocationCol = header.indexOf('allocation')
+    return records.slice(hasHeader ? 1 : 0).map((record, i) => ({
+      address: record[addressCol],
+      allocation: allocationCol >= 0 && record[allocationCol] !== '' ? record[allocationCol] : undefined,
+      source: `${name}:${i + (hasHeader ? 2 : 1)}`,
+    }))
+  }
+
+  const parsed = JSON.parse(content)
+  if (Array.isArray(parsed)) {
+    return parsed.map((item, i) =>
+      typeof item === 'string'
+        ? { address: item, source: `${name}[${i}]` }
+        : {
+            address: item.address,
+            allocation: item.allocation !== undefined ? String(item.allocation) : undefined,
+            source: `${name}[${i}]`,
+          }
+    )
+  }
+  if (parsed && typeof parsed === 'object') {
+    return Object.entries(parsed).map(([address, allocation]) => ({
+      address,
+      allocation: String(allocation),
+      source: `${name}.${address}`,
+    }))
+  }
+  throw new Error(`Unsupported whitelist format: ${file}`)
+}
+
+// rows from a comma separated list of addresses
+export const parseInlineWhitelist = (list: string): WhitelistRow[] => {
+  return list
+    .split(',')
+    .map((a) => a.trim())
+    .filter((a) => a !== '')
+    .map((address, i) => ({ address, source: `#${i + 1}` }))
+}
+
+const sourceName = (source: WhitelistSource): string => {
+  return typeof source === 'string' ? path.basename(source) : source.name
+}
+
+// validates rows, returns checksummed entries and the problems found
+export const validateWhitelistRows = (
+  rows: WhitelistRow[],
+  defaultAllocation?: string
+): { entries: WhitelistEntry[]; errors: string[] } => {
+  const entries: WhitelistEntry[] = []
+  const errors: string[] = []
+
+  rows.forEach((row) => {
+    let address: string
+    try {
+      // throws on bad hex and on mixed case with a wrong checksum
+      address = ethers.utils.getAddress(row.address)
+    } catch (e) {
+      errors.push(`${row.source}: invalid address ${row.address}`)
+      return
+    }
+    if (address === ethers.constants.AddressZero) {
+      errors.push(`${row.source}: zero address`)
+      return
+    }
+
+    const allocation = row.allocation ?? defaultAllocation
+    if (allocation === undefined) {
+      errors.push(`${row.source}: no allocation for ${address}`)
+      return
+    }
+    if (!/^\d+$/.test(allocation)) {
+      errors.push(`${row.source}: invalid allocation ${allocation}`)
+      return
+    }
+    entries.push({ address, allocation })
+  })
+
+  return { entries, errors }
+}
+
+// merges entries of the same address; returns the merged list and how many rows were merged
+export const mergeDuplicates = (
+  entries: WhitelistEntry[],
+  policy: DuplicatePolicy
+): { entries: WhitelistEntry[]; duplicates: number } => {
+  const byAddress = new Map<string, WhitelistEntry>()
+  let duplicates = 0
+
+  entries.forEach((entry) => {
+    const previous = byAddress.get(entry.address)
+    if (!previous) {
+      byAddress.set(entry.address, entry)
+      return
+    }
+    duplicates++
+    if (policy === 'error') {
+      throw new Error(`Duplicate address: ${entry.address}`)
+    }
+    const a = BigNumber.from(previous.allocation)
+    const b = BigNumber.from(entry.allocation)
+    byAddress.set(entry.address, {
+      address: entry.address,
+      allocation: (policy === 'sum' ? a.add(b) : a.gt(b) ? a : b).toString(),
+    })
+  })
+
+  return { entries: Array.from(byAddress.values()), duplicates }
+}
+
+// addresses listed in more than one of `lists`, with the names of those lists
+export const crossListDuplicates = (
+  lists: WhitelistEntry[][],
+  names: string[]
+): { address: string; lists: string[] }[] => {
+  const byAddress = new Map<string, number[]>()
+  lists.forEach((list, i) => {
+    list.forEach((entry) => {
+      const found = byAddress.get(entry.address) || []
+      if (found[found.length - 1] !== i) found.push(i)
+      byAddress.set(entry.address, found)
+    })
+  })
+  return Array.from(byAddress.entries())
+    .filter(([, indexes]) => indexes.length > 1)
+    .map(([address, indexes]) => ({ address, lists: indexes.map((i) => names[i]) }))
+}
+
+// union of lists, duplicates merged by policy
+export const unionWhitelists = (
+  lists: WhitelistEntry[][],
+  policy: DuplicatePolicy
+): WhitelistEntry[] => {
+  return mergeDuplicates(([] as WhitelistEntry[]).concat(...lists), policy).entries
+}
+
+// entries of `base` whose address is in `other`, keeping the allocations of `base`
+export const intersectWhitelists = (
+  base: WhitelistEntry[],
+  other: WhitelistEntry[]
+): WhitelistEntry[] => {
+  const addresses = new Set(other.map((e) => e.address.toLowerCase()))
+  return base.filter((e) => addresses.has(e.address.toLowerCase()))
+}
+
+// entries of `base` whose address is not in `other`
+export const subtractWhitelists = (
+  base: WhitelistEntry[],
+  other: WhitelistEntry[]
+): WhitelistEntry[] => {
+  const addresses = new Set(other.map((e) => e.address.toLowerCase()))
+  return base.filter((e) => !addresses.has(e.address.toLowerCase()))
+}
+
+// reads, validates and combines whitelist files:
+// (include[0] ∪ include[1] ∪ ...) ∩ intersect[0] ∩ ... − exclude[0] − ...
+export const ingestWhitelist = (
+  options: IngestOptions
+): { entries: WhitelistEntry[]; report: IngestReport } => {
+  const policy = options.duplicates || 'error'
+  const report: IngestReport = { files: [], steps: [], entryCount: 0, totalAllocation: '0' }
+  const errors: string[] = []
+
+  // intersected and excluded lists only need addresses, so duplicates there are harmless
+  const load = (
+    source: WhitelistSource,
+    defaultAllocation: string | undefined,
+    mergePolicy: DuplicatePolicy
+  ) => {
+    const name = sourceName(source)
+    const rows = typeof source === 'string' ? readWhitelistRows(source) : source.rows
+    const validated = validateWhitelistRows(rows, defaultAllocation)
+    errors.push(...validated.errors.map((e) => (typeof source === 'string' ? e : `${name} ${e}`)))
+    let merged = { entries: validated.entries, duplicates: 0 }
+    try {
+      merged = mergeDuplicates(validated.entries, mergePolicy)
+    } catch (e) {
+      errors.push(`${name}: ${(e as Error).message}`)
+    }
+    report.files.push({ name, rows: rows.length, duplicates: merged.duplicates })
+    return merged.entries
+  }
+
+  const included = options.include.map((source) =>
+    load(source, options.defaultAllocation, policy)
+  )
+  const intersected = (options.intersect || []).map((source) => load(source, '0', 'max'))
+  const excluded = (options.exclude || []).map((source) => load(source, '0', 'max'))
+
+  // each list is merged already, what is left are addresses shared by lists
+  const shared = crossListDuplicates(included, options.include.map(sourceName))
+  if (policy === 'error') {
+    errors.push(
+      ...shared.map((d) => `Duplicate address: ${d.address} in ${d.lists.join(', ')}`)
+    )
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid whitelist input:\n  ${errors.join('\n  ')}`)
+  }
+
+  let entries = unionWhitelists(included, policy)
+  report.steps.push({
+    step: `union of ${options.include.length} list(s), ${shared.length} shared address(es) merged`,
+    count: entries.length,
+  })
+  intersected.forEach((list, i) => {
+    entries = intersectWhitelists(entries, list)
+    report.steps.push({ step: `∩ ${sourceName((options.intersect || [])[i])}`, count: entries.length })
+  })
+  excluded.forEach((list, i) => {
+    entries = subtractWhitelists(entries, list)
+    report.steps.push({ step: `− ${sourceName((options.exclude || [])[i])}`, count: entries.length })
+  })
+
+  report.entryCount = entries.length
+  report.totalAllocation = entries
+    .reduce((sum, e) => sum.add(e.allocation), BigNumber.from(0))
+    .toString()
+  return { entries, report }
+}
+
+// human readable report
+export const formatIngestReport = (report: IngestReport): string => {
+  const lines: string[] = []
+  report.files.forEach((f) => {
+    lines.push(`${f.name}: ${f.rows} row(s), ${f.duplicates} duplicate(s) merged`)
+  })
+  report.steps.forEach((s) => lines.push(`${s.step}: ${s.count}`))
+  lines.push(`Entries: ${report.entryCount}`)
+  lines.push(`Total allocation: ${report.totalAllocation}`)
+  return lines.join('\n')
+}
@@ -0,0 +1,477 @@
+import { task, types } from 'hardhat/config'
+import { BigNumber } from 'ethers'
+import { writeReport } from '../scripts/lib/report'
+import {
+  addInterval,
+  buildCliffSchedule,
+  CliffEntry,
+  cliffPeriodArgs,
+  formatCliffSchedule,
+  formatUnlockCurve,
+  Interval,
+  linearUnlockCurve,
+  readCliffScheduleCsv,
+  validateCliffSchedule,
+  validateLinearVestingEnd,
+} from '../scripts/lib/vestingSchedule'
+import { buildAllocationWhitelist } from '../scripts/lib/whitelist'
+import {
+  DuplicatePolicy,
+  formatIngestReport,
+  ingestWhitelist,
+  parseInlineWhitelist,
+  WhitelistSource,
+} from '../scripts/lib/whitelistIngest'
+import { DRY_RUN_DESCRIPTION, sendOrSimulate } from './lib/dryRun'
+import { taskError } from './lib/errors'
+import { resolveSale, resolveSigner, SIGNER_DESCRIPTION } from './lib/sale'
+import { SAFE_BATCH_DESCRIPTION, writeSafeBatch } from './lib/safeBatch'
+import {
+  address,
+  amount,
+  choice,
+  interval,
+  list,
+  timestamp,
+  uint,
+} from './lib/types'
+
+task('fixedSale:deploy', 'Deploys an IFFixedSale')
+  .addParam('salePrice', 'Payment token wei per sale token', undefined, amount)
+  .addParam('funder', 'Address allowed to fund the sale', undefined, address)
+  .addParam('paymentToken', 'Payment token address', undefined, address)
+  .addParam('saleToken', 'Sale token address', undefined, address)
+  .addParam('startTime', 'Sale start, unix timestamp (inclusive)', undefined, uint)
+  .addParam('endTime', 'Sale end, unix timestamp (inclusive)', undefined, uint)
+  .addParam('maxTotalPayment', 'Max total payment per user in wei', undefined, amount)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        salePrice: string
+        funder: string
+        paymentToken: string
+        saleToken: string
+        startTime: number
+        endTime: number
+        maxTotalPayment: string
+        signer?: string
+      },
+      hre
+    ) => {
+      if (args.endTime < args.startTime) {
+        throw taskError('endTime is before startTime')
+      }
+
+      // We get the contract to deploy
+      const IFFixedSaleFactory = await hre.ethers.getContractFactory(
+        'IFFixedSale',
+        await resolveSigner(hre, args.signer)
+      )
+
+      // deploy
+      const IFFixedSale = await IFFixedSaleFactory.deploy(
+        args.salePrice,
+        args.funder,
+        args.paymentToken,
+        args.saleToken,
+        args.startTime,
+        args.endTime,
+        args.maxTotalPayment
+      )
+
+      await IFFixedSale.deployed()
+
+      console.log('IFFixedSale deployed to ', IFFixedSale.address)
+    }
+  )
+
+task('fixedSale:setWhitelist', 'Sets the whitelist merkle root of an IFFixedSale')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam(
+    'whitelist',
+    'Inline list of addresses, comma separated, for a short list'
+  )
+  .addOptionalParam(
+    'whitelistFiles',
+    'CSV or JSON lists to union, comma separated',
+    [],
+    list
+  )
+  .addOptionalParam(
+    'intersectFiles',
+    'Lists every address must also be in, comma separated',
+    [],
+    list
+  )
+  .addOptionalParam(
+    'excludeFiles',
+    'Lists of addresses to remove, comma separated',
+    [],
+    list
+  )
+  .addOptionalParam(
+    'allocation',
+    'Allocation for entries listed without one',
+    undefined,
+    amount
+  )
+  .addOptionalParam(
+    'duplicates',
+    'How to merge an address listed twice',
+    'error',
+    choice<DuplicatePolicy>(['sum', 'max', 'error'])
+  )
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        whitelist?: string
+        whitelistFiles: string[]
+        intersectFiles: string[]
+        excludeFiles: string[]
+        allocation?: string
+        duplicates: DuplicatePolicy
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      // lists to union: inline list and whitelistFiles
+      const include: WhitelistSource[] = [...args.whitelistFiles]
+      if (args.whitelist) {
+        include.push({
+          name: 'whitelist',
+          rows: parseInlineWhitelist(args.whitelist),
+        })
+      }
+      if (include.length === 0) {
+        throw taskError('No whitelist specified')
+      }
+
+      // read, validate and combine lists
+      const { entries, report } = ingestWhitelist({
+        include,
+        intersect: args.intersectFiles,
+        exclude: args.excludeFiles,
+        duplicates: args.duplicates,
+        defaultAllocation: args.allocation,
+      })
+
+      // get merkle root of (address, allocation) leaves
+      const merkleRoot = buildAllocationWhitelist(entries).root
+
+      // report before sending anything
+      console.log('---- Whitelist ----')
+      console.log(formatIngestReport(report))
+      console.log('Merkle root:', merkleRoot)
+
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFFixedSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+
+      if (args.safeBatch) {
+        await writeSafeBatch(
+          hre,
+          args.safeBatch,
+          signer,
+          [{ contract: sale, method: 'setWhitelist', args: [merkleRoot] }],
+          `Set the whitelist of ${args.sale} to ${merkleRoot}`
+        )
+        return
+      }
+
+      await sendOrSimulate(sale, dryRun, async () => {
+        // add whitelist merkleroot to sale
+        const result = await sale.setWhitelist(merkleRoot)
+        await result.wait()
+
+        // log
+        console.log('Sale:', args.sale)
+        console.log('New merkle root:', merkleRoot)
+        console.log('---- Output ----')
+        console.log('Tx hash:', result.hash)
+      })
+    }
+  )
+
+task('fixedSale:setCliffVesting', 'Sets cliff unlocks from a schedule or a CSV table')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam(
+    'scheduleFile',
+    'CSV of time,percent rows, instead of the schedule options',
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam('tge', 'First unlock, unix timestamp', undefined, uint)
+  .addOptionalParam('tgePct', 'Percent unlocked at tge', 0, uint)
+  .addOptionalParam(
+    'cliff',
+    'Wait after tge before the steps, <n>d or <n>m, none by default',
+    undefined,
+    interval
+  )
+  .addOptionalParam(
+    'step',
+    'Time between unlocks, <n>d or <n>m (calendar months)',
+    undefined,
+    interval
+  )
+  .addOptionalParam('steps', 'Unlocks after the cliff', 0, uint)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        scheduleFile?: string
+        tge?: number
+        tgePct: number
+        cliff?: Interval
+        step?: Interval
+        steps: number
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      // either a table or tge, tgePct, cliff, step and steps
+      let schedule: CliffEntry[]
+      if (args.scheduleFile) {
+        if (
+          args.tge !== undefined ||
+          args.tgePct > 0 ||
+          args.cliff ||
+          args.step ||
+          args.steps > 0
+        ) {
+          throw taskError(
+            '--schedule-file replaces --tge, --tge-pct, --cliff, --step and --steps'
+          )
+        }
+        schedule = readCliffScheduleCsv(args.scheduleFile)
+      } else {
+        if (args.tge === undefined) {
+          throw taskError('--tge is required without --schedule-file')
+        }
+        if (args.steps > 0 && !args.step) {
+          throw taskError('--steps needs --step')
+        }
+        const none: Interval = { count: 0, unit: 'day' }
+        schedule = buildCliffSchedule({
+          tge: args.tge,
+          tgePct: args.tgePct,
+          cliff: args.cliff || none,
+          step: args.step || none,
+          steps: args.steps,
+        })
+      }
+
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFFixedSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+
+      try {
+        // check the setCliffPeriod rules before sending anything
+        const withdrawTime: number = (await sale.withdrawTime()).toNumber()
+        console.log('Sale:', args.sale)
+        console.log('withdrawTime:', new Date(withdrawTime * 1000), withdrawTime)
+        console.log('---- Schedule ----')
+        console.log(formatCliffSchedule(schedule))
+        const errors = validateCliffSchedule(schedule, withdrawTime)
+        const startTime: number = (await sale.startTime()).toNumber()
+        const { timestamp: now } = await sale.provider.getBlock('latest')
+        if (now >= startTime) {
+          // IFSale only takes vesting changes before the sale, whatever vestingEditableOverride says
+          errors.push(`Sale started at ${new Date(startTime * 1000).toISOString()}`)
+        }
+        if (errors.length > 0) {
+          errors.forEach((error) => console.log('ERROR:', error))
+          throw taskError('Schedule has errors, nothing was sent')
+        }
+        const [claimTimes, pct] = cliffPeriodArgs(schedule)
+
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            [
+              {
+                contract: sale,
+                method: 'setCliffPeriod',
+                args: [claimTimes, pct],
+              },
+            ],
+            `Set ${claimTimes.length} cliff unlocks on ${args.sale}`
+          )
+          return
+        }
+
+        await sendOrSimulate(sale, dryRun, async () => {
+          const result = await sale.setCliffPeriod(claimTimes, pct)
+          await result.wait()
+
+          // log
+          console.log('---- Output ----')
+          console.log('Cliff Period:', await sale.getCliffPeriod())
+          console.log('Tx hash:', result.hash)
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+task('fixedSale:setLinearVesting', 'Sets the linear vesting end, clearing any cliff unlocks')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam(
+    'duration',
+    'Vesting length from withdrawTime, <n>d or <n>m',
+    undefined,
+    interval
+  )
+  .addOptionalParam(
+    'endTime',
+    'Vesting end, unix timestamp or ISO 8601 date',
+    undefined,
+    timestamp
+  )
+  .addOptionalParam(
+    'sampleAllocation',
+    'Sale token wei the unlock preview is computed for',
+    '1000000000000000000000',
+    amount
+  )
+  .addOptionalParam('curveOutput', 'CSV or JSON file for the daily unlock preview')
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        duration?: Interval
+        endTime?: number
+        sampleAllocation: string
+        curveOutput?: string
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      if ((args.duration === undefined) === (args.endTime === undefined)) {
+        throw taskError('Set exactly one of --duration and --end-time')
+      }
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFFixedSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+
+      try {
+        const withdrawTime: number = (await sale.withdrawTime()).toNumber()
+        const endTime =
+          args.endTime !== undefined
+            ? args.endTime
+            : addInterval(withdrawTime, args.duration as Interval)
+        console.log('Sale:', args.sale)
+        console.log('withdrawTime:', new Date(withdrawTime * 1000), withdrawTime)
+        console.log('Vesting end:', new Date(endTime * 1000), endTime)
+
+        // check the setLinearVestingEndTime rules before sending anything
+        const errors = validateLinearVestingEnd(endTime, withdrawTime)
+        const startTime: number = (await sale.startTime()).toNumber()
+        const { timestamp: now } = await sale.provider.getBlock('latest')
+        if (now >= startTime) {
+          // IFSale only takes vesting changes before the sale, whatever vestingEditableOverride says
+          errors.push(`Sale started at ${new Date(startTime * 1000).toISOString()}`)
+        }
+        if (errors.length > 0) {
+          errors.forEach((error) => console.log('ERROR:', error))
+          throw taskError('Vesting end has errors, nothing was sent')
+        }
+
+        // setting a linear end deletes cliffPeriod
+        const cliffs: { claimTime: BigNumber; pct: number }[] =
+          await sale.getCliffPeriod()
+        if (cliffs.length > 0) {
+          console.log(`WARNING: this clears the ${cliffs.length} cliff unlocks set now:`)
+          console.log(
+            formatCliffSchedule(
+              cliffs.map((c) => ({ claimTime: c.claimTime.toNumber(), pct: c.pct }))
+            )
+          )
+        }
+
+        const curve = linearUnlockCurve(
+          withdrawTime,
+          endTime,
+          args.sampleAllocation
+        )
+        console.log(`---- Unlocks of ${args.sampleAllocation} ----`)
+        console.log(formatUnlockCurve(curve))
+        if (args.curveOutput) {
+          writeReport(
+            args.curveOutput,
+            curve.map((point) => ({
+              time: point.time,
+              date: new Date(point.time * 1000).toISOString(),
+              unlocked: point.unlocked.toString(),
+            }))
+          )
+          console.log('Preview:', args.curveOutput)
+        }
+
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            [{ contract: sale, method: 'setLinearVestingEndTime', args: [endTime] }],
+            `Vest ${args.sale} linearly until ${new Date(endTime * 1000).toISOString()}`
+          )
+          return
+        }
+
+        await sendOrSimulate(sale, dryRun, async () => {
+          const result = await sale.setLinearVestingEndTime(endTime)
+          await result.wait()
+
+          // log
+          console.log('---- Output ----')
+          console.log('linearVestingEndTime:', (await sale.linearVestingEndTime()).toString())
+          console.log('Tx hash:', result.hash)
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
@@ -0,0 +1,8 @@
+// sale operations as hardhat tasks, see `npx hardhat help <task>`
+import './sale'
+import './fixedSale'
+import './tieredSale'
+import './tieredSaleReports'
+import './promoCodes'
+import './whitelist'
+import './safe'
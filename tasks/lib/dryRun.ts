@@ -0,0 +1,134 @@
+import { ethers } from 'ethers'
+// not part of hardhat's public API, package.json pins hardhat to the version
+// this was written against, check it still builds a forking provider when
+// upgrading
+import { createProvider } from 'hardhat/internal/core/providers/construction'
+import {
+  EIP1193Provider,
+  HardhatRuntimeEnvironment,
+  HttpNetworkConfig,
+} from 'hardhat/types'
+import {
+  diffSnapshots,
+  formatStateDiff,
+  SaleSnapshot,
+  snapshotSale,
+} from '../../scripts/lib/stateDiff'
+import { taskError } from './errors'
+
+export const DRY_RUN_DESCRIPTION =
+  'Run on an in-process fork of the latest block and print the state diff, nothing is broadcast'
+
+export type DryRun = {
+  provider: ethers.providers.Web3Provider
+  signer: ethers.providers.JsonRpcSigner // the real signer, impersonated
+  stop: () => Promise<void> // only acts the first time
+}
+
+/**
+ * Forks the current network at its latest block in process, using the
+ * `hardhat` network config with its forking url pointed at the current
+ * network, and impersonates `from`. On the `hardhat` network itself the
+ * calls run on a snapshot that is reverted by `stop`. `stop` also ends the
+ * impersonation, and the task must call it however it ends.
+ */
+export const startDryRun = async (
+  hre: HardhatRuntimeEnvironment,
+  from: string
+): Promise<DryRun> => {
+  let fork: EIP1193Provider
+  let revert = async () => undefined
+  if (hre.network.name === 'hardhat') {
+    fork = hre.network.provider
+    const snapshot = await fork.request({ method: 'evm_snapshot' })
+    revert = async () => {
+      await fork.request({ method: 'evm_revert', params: [snapshot] })
+    }
+  } else {
+    const { url } = hre.network.config as HttpNetworkConfig
+    const blockNumber = await hre.ethers.provider.getBlockNumber()
+    fork = await createProvider(
+      {
+        ...hre.config,
+        networks: {
+          ...hre.config.networks,
+          hardhat: {
+            ...hre.config.networks.hardhat,
+            forking: { enabled: true, url, blockNumber, httpHeaders: {} },
+          },
+        },
+      },
+      'hardhat',
+      hre.artifacts
+    )
+  }
+
+  await fork.request({ method: 'hardhat_impersonateAccount', params: [from] })
+  const provider = new ethers.providers.Web3Provider(fork)
+  // a multisig usually holds no gas, which would be the only failure
+  if ((await provider.getBalance(from)).isZero()) {
+    await fork.request({
+      method: 'hardhat_setBalance',
+      params: [from, ethers.utils.hexValue(ethers.utils.parseEther('100'))],
+    })
+  }
+  let stopped = false
+  const stop = async () => {
+    if (stopped) return
+    stopped = true
+    await fork.request({
+      method: 'hardhat_stopImpersonatingAccount',
+      params: [from],
+    })
+    await revert()
+  }
+  return { provider, signer: provider.getSigner(from), stop }
+}
+
+// the reason string or custom error of a reverted call, else the error message
+export const revertReason = (e: unknown): string => {
+  const message = (e as Error).message || String(e)
+  const match = message.match(
+    /reverted with (?:reason string|custom error) '(.*?)'(?:"|$|\s)/
+  )
+  return match ? match[1] : message
+}
+
+/**
+ * Runs `send` for real, or in a dry run between two snapshots of the sale
+ * and the labelled `accounts`, then prints the diff and any revert reason.
+ * A reverted dry run fails the task after the diff is printed.
+ */
+export const sendOrSimulate = async (
+  sale: ethers.Contract,
+  dryRun: DryRun | undefined,
+  send: () => Promise<void>,
+  accounts: Record<string, string> = {}
+): Promise<void> => {
+  if (!dryRun) return send()
+
+  const labelled = {
+    sale: sale.address,
+    signer: await dryRun.signer.getAddress(),
+    ...accounts,
+  }
+  let before: SaleSnapshot, after: SaleSnapshot
+  let reverted: string | undefined
+  try {
+    before = await snapshotSale(sale, labelled)
+    try {
+      await send()
+    } catch (e) {
+      reverted = revertReason(e)
+    }
+    after = await snapshotSale(sale, labelled)
+  } finally {
+    await dryRun.stop()
+  }
+
+  console.log('---- Dry run, nothing was broadcast ----')
+  console.log(formatStateDiff(diffSnapshots(before, after)))
+  if (reverted !== undefined) {
+    throw taskError(`Dry run reverted: ${reverted}`)
+  }
+}
@@ -0,0 +1,5 @@
+import { HardhatPluginError } from 'hardhat/plugins'
+
+// a task refusing its input, printed by hardhat without a stack trace
+export const taskError = (message: string): HardhatPluginError =>
+  new HardhatPluginError('tasks', message)
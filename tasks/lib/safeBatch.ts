@@ -0,0 +1,43 @@
+import fs from 'fs'
+import path from 'path'
+import { Signer } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import {
+  buildSafeBatch,
+  ContractCall,
+  decodeSafeBatch,
+  formatDecodedBatch,
+} from '../../scripts/lib/safeBatch'
+import { taskError } from './errors'
+
+export const SAFE_BATCH_DESCRIPTION =
+  'Write the calls to this file as a Safe Transaction Builder batch instead of sending them, --signer is the Safe'
+
+/**
+ * Writes `calls` as a batch for the Safe `signer`, on the current network's
+ * chain id, and prints them as the Transaction Builder will show them.
+ */
+export const writeSafeBatch = async (
+  hre: HardhatRuntimeEnvironment,
+  file: string,
+  signer: Signer | undefined,
+  calls: ContractCall[],
+  description: string
+): Promise<void> => {
+  if (!signer) throw taskError('A Safe batch needs the Safe as signer')
+  const { chainId } = await hre.ethers.provider.getNetwork()
+  const batch = buildSafeBatch(
+    chainId,
+    await signer.getAddress(),
+    calls,
+    description
+  )
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2) + '\n')
+
+  const interfaces = calls.map((call) => call.contract.interface)
+  console.log('---- Safe batch, nothing was sent ----')
+  console.log('Safe:', batch.meta.createdFromSafeAddress)
+  console.log(formatDecodedBatch(decodeSafeBatch(batch, interfaces)))
+  console.log('Batch:', file)
+}
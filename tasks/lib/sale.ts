@@ -0,0 +1,132 @@
+import { Contract, Signer, VoidSigner } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { DryRun, startDryRun } from './dryRun'
+import { taskError } from './errors'
+
+export type SaleType = 'IFFixedSale' | 'IFTieredSale'
+
+export const SIGNER_DESCRIPTION =
+  'Index or address of the network account that sends the transactions'
+
+export type ResolvedSale = {
+  type: SaleType
+  contract: Contract // connected to the signer when one was resolved, else to the provider
+  signer?: Signer
+  dryRun?: DryRun // set when the contract is connected to an in-process fork
+}
+
+/**
+ * Signer by index in the network accounts (default 0) or by address, which
+ * must be one of the network accounts.
+ */
+export const resolveSigner = async (
+  hre: HardhatRuntimeEnvironment,
+  signer = '0'
+): Promise<Signer> => {
+  const signers = await hre.ethers.getSigners()
+  if (/^\d+$/.test(signer)) {
+    const index = parseInt(signer)
+    if (index >= signers.length) {
+      throw taskError(
+        `Signer index ${index} is out of range, ${hre.network.name} has ${signers.length} account(s)`
+      )
+    }
+    return signers[index]
+  }
+  if (!hre.ethers.utils.isAddress(signer)) {
+    throw taskError(`Signer ${signer} is neither an account index nor an address`)
+  }
+  const found = signers.find(
+    (s) => s.address.toLowerCase() === signer.toLowerCase()
+  )
+  if (!found) {
+    throw taskError(`Signer ${signer} is not an account of ${hre.network.name}`)
+  }
+  return found
+}
+
+// whether `address` answers the no argument view `name` with a single word
+const answers = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  name: string
+): Promise<boolean> => {
+  const data = new hre.ethers.utils.Interface([
+    `function ${name}()`,
+  ]).encodeFunctionData(name)
+  try {
+    const result = await hre.ethers.provider.call({ to: address, data })
+    return hre.ethers.utils.hexDataLength(result) === 32
+  } catch (e) {
+    return false
+  }
+}
+
+/**
+ * Detects whether `address` is an IFTieredSale (it has OPERATOR_ROLE) or an
+ * IFFixedSale (it has salePrice) and returns it with the matching ABI.
+ * Fails before anything is sent when there is no sale at the address, when
+ * it is not of the `expected` type, or when the signer cannot be resolved.
+ * With `dryRun`, the contract is connected to the signer impersonated on a
+ * fork, and with `safeBatch` to a signer that only knows its address, for
+ * the task to encode its calls. The signer may then be any address, such as
+ * a multisig, and must be given as one with `safeBatch`.
+ */
+export const resolveSale = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  options: {
+    expected?: SaleType
+    signer?: string
+    readOnly?: boolean
+    dryRun?: boolean
+    safeBatch?: boolean
+  } = {}
+): Promise<ResolvedSale> => {
+  if (options.dryRun && options.safeBatch) {
+    throw taskError('--dry-run and --safe-batch cannot be combined')
+  }
+  // an account of the network is never the Safe, so it must be named
+  if (
+    options.safeBatch &&
+    !(options.signer && hre.ethers.utils.isAddress(options.signer))
+  ) {
+    throw taskError('--safe-batch needs --signer <Safe address>')
+  }
+  const code = await hre.ethers.provider.getCode(address)
+  if (code === '0x') {
+    throw taskError(`No contract at ${address} on ${hre.network.name}`)
+  }
+
+  let type: SaleType
+  if (await answers(hre, address, 'OPERATOR_ROLE')) {
+    type = 'IFTieredSale'
+  } else if (await answers(hre, address, 'salePrice')) {
+    type = 'IFFixedSale'
+  } else {
+    throw taskError(`${address} is neither an IFFixedSale nor an IFTieredSale`)
+  }
+  if (options.expected && options.expected !== type) {
+    throw taskError(`${address} is an ${type}, expected an ${options.expected}`)
+  }
+
+  const { abi } = await hre.artifacts.readArtifact(type)
+  if (options.readOnly) {
+    return { type, contract: new Contract(address, abi, hre.ethers.provider) }
+  }
+  if (options.dryRun || options.safeBatch) {
+    const from =
+      options.signer && hre.ethers.utils.isAddress(options.signer)
+        ? hre.ethers.utils.getAddress(options.signer)
+        : await (await resolveSigner(hre, options.signer)).getAddress()
+    if (options.safeBatch) {
+      const signer = new VoidSigner(from, hre.ethers.provider)
+      return { type, contract: new Contract(address, abi, signer), signer }
+    }
+    const dryRun = await startDryRun(hre, from)
+    const contract = new Contract(address, abi, dryRun.signer)
+    return { type, contract, signer: dryRun.signer, dryRun }
+  }
+  const signer = await resolveSigner(hre, options.signer)
+  return { type, contract: new Contract(address, abi, signer), signer }
+}
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers'
+import { CLIArgumentType } from 'hardhat/types'
+import {
+  Interval,
+  parseInterval,
+  parseTimestamp,
+} from '../../scripts/lib/vestingSchedule'
+import { taskError } from './errors'
+
+// argument types shared by the sale tasks, on top of hardhat's `types`
+
+const invalid = (value: unknown, argName: string, type: string): Error =>
+  taskError(`Invalid value ${value} for argument ${argName} of type ${type}`)
+
+// checksummed address, mixed case input must have a valid checksum
+export const address: CLIArgumentType<string> = {
+  name: 'address',
+  parse: (argName, strValue) => {
+    if (!ethers.utils.isAddress(strValue)) {
+      throw invalid(strValue, argName, 'address')
+    }
+    return ethers.utils.getAddress(strValue)
+  },
+  validate: (argName, value) => {
+    if (typeof value !== 'string' || !ethers.utils.isAddress(value)) {
+      throw invalid(value, argName, 'address')
+    }
+  },
+}
+
+// uint256 as a decimal string, for token amounts
+export const amount: CLIArgumentType<string> = {
+  name: 'amount',
+  parse: (argName, strValue) => {
+    amount.validate?.(argName, strValue)
+    return strValue
+  },
+  validate: (argName, value) => {
+    if (
+      typeof value !== 'string' ||
+      !/^\d+$/.test(value) ||
+      ethers.BigNumber.from(value).gt(ethers.constants.MaxUint256)
+    ) {
+      throw invalid(value, argName, 'amount')
+    }
+  },
+}
+
+// non-negative safe integer, for block numbers, timestamps and counts
+export const uint: CLIArgumentType<number> = {
+  name: 'uint',
+  parse: (argName, strValue) => {
+    if (!/^\d+$/.test(strValue)) throw invalid(strValue, argName, 'uint')
+    const value = Number(strValue)
+    uint.validate?.(argName, value)
+    return value
+  },
+  validate: (argName, value) => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw invalid(value, argName, 'uint')
+    }
+  },
+}
+
+// comma separated values, empty items dropped
+export const list: CLIArgumentType<string[]> = {
+  name: 'list',
+  parse: (argName, strValue) =>
+    strValue
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item !== ''),
+  validate: (argName, value) => {
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+      throw invalid(value, argName, 'list')
+    }
+  },
+}
+
+// unix timestamp or ISO 8601 date, e.g. 2025-01-31T00:00:00Z
+export const timestamp: CLIArgumentType<number> = {
+  name: 'timestamp',
+  parse: (argName, strValue) => {
+    const value = parseTimestamp(strValue.trim())
+    if (value === undefined) throw invalid(strValue, argName, 'timestamp')
+    timestamp.validate?.(argName, value)
+    return value
+  },
+  validate: (argName, value) => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw invalid(value, argName, 'timestamp')
+    }
+  },
+}
+
+// <n>d for days or <n>m for calendar months, e.g. 30d or 3m
+export const interval: CLIArgumentType<Interval> = {
+  name: 'interval',
+  parse: (argName, strValue) => {
+    try {
+      return parseInterval(strValue)
+    } catch (e) {
+      throw invalid(strValue, argName, 'interval')
+    }
+  },
+  validate: (argName, value) => {
+    if (
+      !value ||
+      !Number.isSafeInteger(value.count) ||
+      value.count < 0 ||
+      !['day', 'month'].includes(value.unit)
+    ) {
+      throw invalid(JSON.stringify(value), argName, 'interval')
+    }
+  },
+}
+
+// one of a fixed set of strings
+export const choice = <T extends string>(
+  values: readonly T[]
+): CLIArgumentType<T> => {
+  const name = values.join('|')
+  return {
+    name,
+    parse: (argName, strValue) => {
+      if (!values.includes(strValue as T)) throw invalid(strValue, argName, name)
+      return strValue as T
+    },
+    validate: (argName, value) => {
+      if (!values.includes(value)) throw invalid(value, argName, name)
+    },
+  }
+}
@@ -0,0 +1,284 @@
+import { task, types } from 'hardhat/config'
+import fs from 'fs'
+import CsvParse from 'csv-parse/lib/sync'
+import {
+  appendCodeRegistry,
+  generatePromoCodes,
+  readCodeRegistry,
+  readWordlist,
+} from '../scripts/lib/promoCodeGenerator'
+import {
+  defaultResultFile,
+  formatImportPlan,
+  planPromoCodeImport,
+  PromoCodeImportResult,
+  readImportResults,
+  readPromoCodeCsv,
+} from '../scripts/lib/promoCodeImport'
+import { fetchPromoCodeNames } from '../scripts/lib/promoCodeReport'
+import { writeReport } from '../scripts/lib/report'
+import {
+  addPromoCodeArgs,
+  PromoCodeConfig,
+  validatePromoCode,
+} from '../scripts/lib/tieredSaleConfig'
+import { DRY_RUN_DESCRIPTION, sendOrSimulate } from './lib/dryRun'
+import { taskError } from './lib/errors'
+import { resolveSale, SIGNER_DESCRIPTION } from './lib/sale'
+import { SAFE_BATCH_DESCRIPTION, writeSafeBatch } from './lib/safeBatch'
+import { address, uint } from './lib/types'
+
+task('tieredSale:importPromoCodes', 'Adds the promo codes of a CSV that are not on chain yet')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam(
+    'csv',
+    'CSV of code,discount,owner,master,baseOverride,masterOverride',
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam(
+    'result',
+    'Result file, also read to resume (default <csv name>.result.csv)'
+  )
+  .addFlag('planOnly', 'Only print the summary')
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION + ', the result file is not written')
+  .addOptionalParam(
+    'safeBatch',
+    SAFE_BATCH_DESCRIPTION + ', the result file is not written'
+  )
+  .setAction(
+    async (
+      args: {
+        sale: string
+        csv: string
+        result?: string
+        planOnly: boolean
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      const resultFile = args.result || defaultResultFile(args.csv)
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun && !args.planOnly,
+          safeBatch: !!args.safeBatch && !args.planOnly,
+        }
+      )
+
+      try {
+        // codes already on chain are skipped, which is also how a rerun resumes
+        const plan = planPromoCodeImport(
+          readPromoCodeCsv(args.csv),
+          await fetchPromoCodeNames(sale),
+          readImportResults(resultFile)
+        )
+        console.log('---- Plan ----')
+        console.log(formatImportPlan(plan))
+        if (args.planOnly) return
+
+        if (args.safeBatch) {
+          if (plan.toAdd.length === 0) {
+            console.log('No promo codes to add, no batch written')
+            return
+          }
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            plan.toAdd.map(({ promo }) => ({
+              contract: sale,
+              method: 'addPromoCode',
+              args: addPromoCodeArgs(promo),
+            })),
+            `Add ${plan.toAdd.length} promo codes from ${args.csv} to ${args.sale}`
+          )
+          return
+        }
+
+        // the result file is rewritten after every code so an interrupted run leaves it current
+        const results: PromoCodeImportResult[] = plan.results.slice()
+        const save = () => {
+          if (dryRun) return
+          writeReport(
+            resultFile,
+            results.slice().sort((a, b) => a.line - b.line)
+          )
+        }
+        save()
+
+        await sendOrSimulate(sale, dryRun, async () => {
+          for (let i = 0; i < plan.toAdd.length; i++) {
+            const { line, promo } = plan.toAdd[i]
+            const progress = `[${i + 1}/${plan.toAdd.length}]`
+            try {
+              const result = await sale.addPromoCode(...addPromoCodeArgs(promo))
+              await result.wait()
+              results.push({
+                line,
+                code: promo.code,
+                status: 'added',
+                txHash: result.hash,
+                error: '',
+              })
+              console.log(progress, 'Promo code added:', promo.code, result.hash)
+            } catch (e) {
+              const error = (e as Error).message
+              results.push({ line, code: promo.code, status: 'failed', txHash: '', error })
+              console.log(progress, 'Failed:', promo.code, error)
+            }
+            save()
+          }
+        })
+
+        // log
+        const failed = results.filter((r) => r.status === 'failed').length
+        console.log('---- Output ----')
+        console.log('Added:', results.filter((r) => r.status === 'added').length)
+        console.log('Failed:', failed, failed > 0 ? '(run again to retry)' : '')
+        console.log('Results:', dryRun ? '(dry run, not written)' : resultFile)
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+task('tieredSale:generatePromoCodes', 'Generates one unique promo code per owner as an import CSV')
+  .addParam('output', 'CSV in the tieredSale:importPromoCodes format')
+  .addParam('registry', 'JSON list of codes handed out so far, updated')
+  .addParam(
+    'ownersFile',
+    'CSV of owner[,master], one code per row',
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam(
+    'sale',
+    'Sale address, codes already on it are not reused',
+    undefined,
+    address
+  )
+  .addOptionalParam('master', 'Master owner for rows without one', undefined, address)
+  .addParam(
+    'discount',
+    'Discount percentage, at least 1 as purchases with a 0% code revert',
+    undefined,
+    uint
+  )
+  .addOptionalParam('baseOverride', 'Base owner percentage override, 0 for default', 0, uint)
+  .addOptionalParam('masterOverride', 'Master owner percentage override, 0 for default', 0, uint)
+  .addOptionalParam('prefix', 'Code prefix, e.g. KOL')
+  .addOptionalParam('alphabet', 'Characters to pick from')
+  .addOptionalParam('length', 'Random characters per code', undefined, uint)
+  .addOptionalParam(
+    'wordlist',
+    'File with one word per line, replaces the alphabet',
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam('words', 'Words per code', undefined, uint)
+  .addOptionalParam('separator', 'Separator after the prefix and between words, e.g. -')
+  .setAction(
+    async (
+      args: {
+        output: string
+        registry: string
+        ownersFile: string
+        sale?: string
+        master?: string
+        discount: number
+        baseOverride: number
+        masterOverride: number
+        prefix?: string
+        alphabet?: string
+        length?: number
+        wordlist?: string
+        words?: number
+        separator?: string
+      },
+      hre
+    ) => {
+      // IFTieredSale._validatePromoCode rejects a 0% code at purchase, not at addPromoCode
+      if (args.discount < 1) {
+        throw taskError('--discount must be at least 1, purchases with a 0% promo code revert')
+      }
+
+      // one code per owner, with its line in the file
+      const owners: { record: string[]; info: { lines: number } }[] = CsvParse(
+        fs.readFileSync(args.ownersFile, 'utf8'),
+        {
+          skip_empty_lines: true,
+          trim: true,
+          relax_column_count: true,
+          info: true,
+        }
+      ).filter((r: { record: string[] }) => r.record[0].toLowerCase() !== 'owner')
+
+      // codes that must not be produced again
+      const taken = readCodeRegistry(args.registry)
+      if (args.sale) {
+        const { contract: sale } = await resolveSale(hre, args.sale, {
+          expected: 'IFTieredSale',
+          readOnly: true,
+        })
+        taken.push(...(await fetchPromoCodeNames(sale)))
+      }
+
+      const codes = generatePromoCodes(
+        {
+          count: owners.length,
+          prefix: args.prefix,
+          alphabet: args.alphabet,
+          length: args.length,
+          wordlist: args.wordlist ? readWordlist(args.wordlist) : undefined,
+          words: args.words,
+          separator: args.separator,
+        },
+        taken
+      )
+
+      // rows must pass the same checks as the import
+      const rows: PromoCodeConfig[] = codes.map((code, i) => ({
+        code,
+        discountPercentage: args.discount,
+        promoCodeOwnerAddress: owners[i].record[0],
+        masterOwnerAddress: owners[i].record[1] || args.master || '',
+        baseOwnerPercentageOverride: args.baseOverride,
+        masterOwnerPercentageOverride: args.masterOverride,
+      }))
+      const errors = rows.flatMap((row, i) =>
+        validatePromoCode(row).map(
+          (e) =>
+            `${args.ownersFile}:${owners[i].info.lines} ${row.promoCodeOwnerAddress}: ${e}`
+        )
+      )
+      if (errors.length > 0) {
+        throw taskError(`Invalid promo codes:\n  ${errors.join('\n  ')}`)
+      }
+
+      writeReport(
+        args.output,
+        rows.map((row) => ({
+          code: row.code,
+          discount: row.discountPercentage,
+          owner: row.promoCodeOwnerAddress,
+          master: row.masterOwnerAddress,
+          baseOverride: row.baseOwnerPercentageOverride,
+          masterOverride: row.masterOwnerPercentageOverride,
+        }))
+      )
+      appendCodeRegistry(args.registry, codes)
+
+      // log
+      console.log('---- Output ----')
+      console.log('Codes:', codes.length)
+      console.log('CSV:', args.output)
+      console.log('Registry:', args.registry)
+    }
+  )
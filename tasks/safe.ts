@@ -0,0 +1,55 @@
+import { task, types } from 'hardhat/config'
+import { ethers } from 'ethers'
+import { ERC20_ABI } from '../scripts/lib/erc20'
+import {
+  decodeSafeBatch,
+  formatDecodedBatch,
+  readSafeBatch,
+} from '../scripts/lib/safeBatch'
+import { taskError } from './lib/errors'
+
+task('safe:verifyBatch', 'Decodes a Safe Transaction Builder batch for review')
+  .addParam('batch', 'Batch JSON', undefined, types.inputFile)
+  .setAction(async (args: { batch: string }, hre) => {
+    const batch = readSafeBatch(args.batch)
+
+    // sale calls, and the approve of sale:fund
+    const interfaces: ethers.utils.Interface[] = []
+    for (const name of ['IFTieredSale', 'IFFixedSale']) {
+      const { abi } = await hre.artifacts.readArtifact(name)
+      interfaces.push(new ethers.utils.Interface(abi))
+    }
+    interfaces.push(new ethers.utils.Interface(ERC20_ABI))
+    const decoded = decodeSafeBatch(batch, interfaces)
+
+    // a batch is only meaningful against the contracts of its own chain
+    const { chainId } = await hre.ethers.provider.getNetwork()
+    const sameChain = batch.chainId === chainId.toString()
+    if (sameChain) {
+      for (const tx of decoded) {
+        if ((await hre.ethers.provider.getCode(tx.to)) === '0x') {
+          tx.problems.push(`No contract at ${tx.to} on ${hre.network.name}`)
+        }
+      }
+    }
+
+    // log
+    console.log('Batch:', args.batch)
+    console.log('Chain id:', batch.chainId)
+    console.log('Safe:', batch.meta?.createdFromSafeAddress || '-')
+    console.log('Description:', batch.meta?.description || '-')
+    console.log('---- Transactions ----')
+    console.log(formatDecodedBatch(decoded))
+
+    if (!sameChain) {
+      throw taskError(
+        `Batch is for chain ${batch.chainId}, ${hre.network.name} is chain ${chainId}`
+      )
+    }
+    const flagged = decoded.filter((tx) => tx.problems.length > 0).length
+    if (flagged > 0) {
+      throw taskError(`${flagged} of ${decoded.length} transaction(s) have problems`)
+    }
+    console.log('---- Output ----')
+    console.log('Transactions:', decoded.length, 'all decoded')
+  })
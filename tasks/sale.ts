@@ -0,0 +1,271 @@
+import { task } from 'hardhat/config'
+import { Contract } from 'ethers'
+import { ERC20_ABI } from '../scripts/lib/erc20'
+import { DRY_RUN_DESCRIPTION, sendOrSimulate } from './lib/dryRun'
+import { taskError } from './lib/errors'
+import { resolveSale, SIGNER_DESCRIPTION } from './lib/sale'
+import { SAFE_BATCH_DESCRIPTION, writeSafeBatch } from './lib/safeBatch'
+import { address, amount, uint } from './lib/types'
+
+// IFFundable operations, shared by IFFixedSale and IFTieredSale
+
+type SendArgs = {
+  sale: string
+  signer?: string
+  dryRun: boolean
+  safeBatch?: string
+}
+
+type FundArgs = SendArgs & {
+  amount: string
+  saleToken?: string
+}
+
+task('sale:fund', 'Approves and funds sale tokens, as the funder')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('amount', 'Sale token amount in wei', undefined, amount)
+  .addOptionalParam(
+    'saleToken',
+    'Sale token address, required for a fixed sale as it does not expose it',
+    undefined,
+    address
+  )
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(async (args: FundArgs, hre) => {
+    const { type, contract: sale, signer, dryRun } = await resolveSale(
+      hre,
+      args.sale,
+      {
+        signer: args.signer,
+        dryRun: args.dryRun,
+        safeBatch: !!args.safeBatch,
+      }
+    )
+    try {
+      // IFFundable keeps the sale token private, only IFTieredSale has a getter
+      let saleTokenAddress = args.saleToken
+      if (type === 'IFTieredSale') {
+        const actual: string = await sale.saleToken()
+        if (
+          saleTokenAddress &&
+          saleTokenAddress.toLowerCase() !== actual.toLowerCase()
+        ) {
+          throw taskError(
+            `Sale token of ${args.sale} is ${actual}, not ${saleTokenAddress}`
+          )
+        }
+        saleTokenAddress = actual
+      } else if (!saleTokenAddress) {
+        throw taskError(`${args.sale} is an ${type}, --sale-token is required`)
+      }
+      const saleToken = new Contract(saleTokenAddress, ERC20_ABI, signer)
+
+      if (args.safeBatch) {
+        await writeSafeBatch(
+          hre,
+          args.safeBatch,
+          signer,
+          [
+            { contract: saleToken, method: 'approve', args: [args.sale, args.amount] },
+            { contract: sale, method: 'fund', args: [args.amount] },
+          ],
+          `Fund ${args.sale} with ${args.amount} sale tokens`
+        )
+        return
+      }
+
+      await sendOrSimulate(sale, dryRun, async () => {
+        // get original saleAmount
+        const originalSaleAmount = (await sale.saleAmount()).toString()
+
+        // approve
+        const approve = await saleToken.approve(args.sale, args.amount)
+        await approve.wait()
+
+        // fund
+        const result = await sale.fund(args.amount)
+        await result.wait()
+
+        // log
+        console.log('Sale:', args.sale)
+        console.log('Amount:', args.amount)
+        console.log('---- Output ----')
+        console.log('Tx hash:', result.hash)
+        console.log('Original sale amount:', originalSaleAmount)
+        console.log('New sale amount:', (await sale.saleAmount()).toString())
+      })
+    } finally {
+      await dryRun?.stop()
+    }
+  })
+
+task('sale:setCasher', 'Sets the address allowed to cash the sale')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('casher', 'Casher address', undefined, address)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(async (args: SendArgs & { casher: string }, hre) => {
+    const { contract: sale, signer, dryRun } = await resolveSale(
+      hre,
+      args.sale,
+      {
+        signer: args.signer,
+        dryRun: args.dryRun,
+        safeBatch: !!args.safeBatch,
+      }
+    )
+
+    if (args.safeBatch) {
+      await writeSafeBatch(
+        hre,
+        args.safeBatch,
+        signer,
+        [{ contract: sale, method: 'setCasher', args: [args.casher] }],
+        `Set the casher of ${args.sale} to ${args.casher}`
+      )
+      return
+    }
+
+    await sendOrSimulate(sale, dryRun, async () => {
+      const result = await sale.setCasher(args.casher)
+      await result.wait()
+
+      // log
+      console.log('Sale:', args.sale)
+      console.log('casher:', args.casher)
+      console.log('---- Output ----')
+      console.log('Tx hash:', result.hash)
+    })
+  })
+
+task('sale:setWithdrawDelay', 'Sets the delay between the sale end and claims')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('delay', 'Delay in seconds', undefined, uint)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(async (args: SendArgs & { delay: number }, hre) => {
+    // withdrawDelay is a uint24
+    if (args.delay >= 2 ** 24) {
+      throw taskError(`Delay ${args.delay} does not fit in a uint24`)
+    }
+    const { contract: sale, signer, dryRun } = await resolveSale(
+      hre,
+      args.sale,
+      {
+        signer: args.signer,
+        dryRun: args.dryRun,
+        safeBatch: !!args.safeBatch,
+      }
+    )
+
+    if (args.safeBatch) {
+      await writeSafeBatch(
+        hre,
+        args.safeBatch,
+        signer,
+        [{ contract: sale, method: 'setWithdrawDelay', args: [args.delay] }],
+        `Set the withdraw delay of ${args.sale} to ${args.delay}s`
+      )
+      return
+    }
+
+    await sendOrSimulate(sale, dryRun, async () => {
+      const result = await sale.setWithdrawDelay(args.delay)
+      await result.wait()
+
+      // log
+      console.log('Sale:', args.sale)
+      console.log('Withdraw Delay:', args.delay)
+      console.log('---- Output ----')
+      console.log('Tx hash:', result.hash)
+    })
+  })
+
+task('sale:transferOwnership', 'Transfers sale ownership')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('newOwner', 'New owner address', undefined, address)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(async (args: SendArgs & { newOwner: string }, hre) => {
+    if (args.newOwner === hre.ethers.constants.AddressZero) {
+      throw taskError('New owner is the zero address')
+    }
+    const { contract: sale, signer, dryRun } = await resolveSale(
+      hre,
+      args.sale,
+      {
+        signer: args.signer,
+        dryRun: args.dryRun,
+        safeBatch: !!args.safeBatch,
+      }
+    )
+
+    if (args.safeBatch) {
+      await writeSafeBatch(
+        hre,
+        args.safeBatch,
+        signer,
+        [{ contract: sale, method: 'transferOwnership', args: [args.newOwner] }],
+        `Transfer ${args.sale} to ${args.newOwner}`
+      )
+      return
+    }
+
+    await sendOrSimulate(
+      sale,
+      dryRun,
+      async () => {
+        const result = await sale.transferOwnership(args.newOwner)
+        await result.wait()
+
+        // log
+        console.log('Sale:', args.sale)
+        console.log('New Owner:', args.newOwner)
+        console.log('---- Output ----')
+        console.log('Tx hash:', result.hash)
+      },
+      { newOwner: args.newOwner }
+    )
+  })
+
+task('sale:cash', 'Cashes the sale after it ended, as the casher or owner')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(async (args: SendArgs, hre) => {
+    const { contract: sale, signer, dryRun } = await resolveSale(
+      hre,
+      args.sale,
+      {
+        signer: args.signer,
+        dryRun: args.dryRun,
+        safeBatch: !!args.safeBatch,
+      }
+    )
+
+    if (args.safeBatch) {
+      await writeSafeBatch(
+        hre,
+        args.safeBatch,
+        signer,
+        [{ contract: sale, method: 'cash', args: [] }],
+        `Cash ${args.sale}`
+      )
+      return
+    }
+
+    await sendOrSimulate(sale, dryRun, async () => {
+      const result = await sale.cash()
+      await result.wait()
+
+      // log
+      console.log('Sale:', args.sale)
+      console.log('Tx hash:', result.hash)
+    })
+  })
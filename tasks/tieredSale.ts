@@ -0,0 +1,675 @@
+import { task, types } from 'hardhat/config'
+import { confirm } from '../scripts/lib/prompt'
+import {
+  describeResume,
+  haltCalls,
+  resumeTierIds,
+  selectTiers,
+  setTiersHalted,
+} from '../scripts/lib/saleHalt'
+import {
+  canOperate,
+  DEFAULT_ADMIN_ROLE,
+  fetchRoleHolders,
+  formatRoleHolders,
+  OPERATOR_ROLE,
+  roleDriftWarnings,
+} from '../scripts/lib/saleRoles'
+import {
+  formatTierPlans,
+  planTiers,
+  readTierManifest,
+} from '../scripts/lib/tierManifest'
+import {
+  addPromoCodeArgs,
+  fetchTiers,
+  readTieredSaleConfig,
+  setTierArgs,
+  validateTieredSaleConfig,
+} from '../scripts/lib/tieredSaleConfig'
+import { fetchRewardTotals } from '../scripts/lib/rewardsReconciliation'
+import { ContractCall } from '../scripts/lib/safeBatch'
+import { quoteFromContract } from '../scripts/lib/tieredSaleQuote'
+import {
+  fetchSaleStatus,
+  formatSaleStatus,
+} from '../scripts/lib/tieredSaleStatus'
+import { DRY_RUN_DESCRIPTION, sendOrSimulate } from './lib/dryRun'
+import { taskError } from './lib/errors'
+import { resolveSale, resolveSigner, SIGNER_DESCRIPTION } from './lib/sale'
+import { SAFE_BATCH_DESCRIPTION, writeSafeBatch } from './lib/safeBatch'
+import { address, amount, choice, list, uint } from './lib/types'
+
+task('tieredSale:deploy', 'Deploys and configures an IFTieredSale from a config file')
+  .addParam('saleConfig', 'Sale config JSON', undefined, types.inputFile)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .setAction(async (args: { saleConfig: string; signer?: string }, hre) => {
+    // read and validate config before sending anything
+    const config = readTieredSaleConfig(args.saleConfig)
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    validateTieredSaleConfig(config, now)
+
+    // We get the contract to deploy
+    const IFTieredSaleFactory = await hre.ethers.getContractFactory(
+      'IFTieredSale',
+      await resolveSigner(hre, args.signer)
+    )
+
+    // deploy
+    const IFTieredSale = await IFTieredSaleFactory.deploy(
+      config.paymentToken,
+      config.saleToken,
+      config.startTime,
+      config.endTime
+    )
+
+    await IFTieredSale.deployed()
+
+    console.log('IFTieredSale deployed to ', IFTieredSale.address)
+
+    // grant operators
+    for (const operator of config.operators) {
+      const result = await IFTieredSale.addOperator(operator)
+      await result.wait()
+      console.log('Operator added:', operator, result.hash)
+    }
+
+    // set casher
+    if (config.casher) {
+      const result = await IFTieredSale.setCasher(config.casher)
+      await result.wait()
+      console.log('Casher set:', config.casher, result.hash)
+    }
+
+    // set funder
+    if (config.funder) {
+      const result = await IFTieredSale.setFunder(config.funder)
+      await result.wait()
+      console.log('Funder set:', config.funder, result.hash)
+    }
+
+    // configure tiers
+    for (const tier of config.tiers) {
+      const result = await IFTieredSale.setTier(...setTierArgs(tier))
+      await result.wait()
+      console.log('Tier set:', tier.tierId, result.hash)
+    }
+
+    // add promo codes
+    for (const promo of config.promoCodes) {
+      const result = await IFTieredSale.addPromoCode(...addPromoCodeArgs(promo))
+      await result.wait()
+      console.log('Promo code added:', promo.code, result.hash)
+    }
+
+    // log
+    console.log('---- Output ----')
+    console.log('Sale:', IFTieredSale.address)
+    console.log('Tiers:', await IFTieredSale.getAllTierIds())
+    console.log(
+      'Promo codes:',
+      (await IFTieredSale.getPromoCodeLength()).toString()
+    )
+  })
+
+task('tieredSale:planTiers', 'Prints the calls that would bring tiers in line with a manifest')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('manifest', 'Tier manifest, .json, .yaml or .yml', undefined, types.inputFile)
+  .setAction(async (args: { sale: string; manifest: string }, hre) => {
+    const { contract: sale } = await resolveSale(hre, args.sale, {
+      expected: 'IFTieredSale',
+      readOnly: true,
+    })
+
+    // diff manifest against chain
+    const manifest = readTierManifest(args.manifest)
+    const onChain = await fetchTiers(sale)
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    const plans = planTiers(manifest, onChain, now)
+
+    // log
+    console.log('Sale:', args.sale)
+    console.log('---- Plan ----')
+    console.log(formatTierPlans(plans))
+    console.log(
+      'Calls to send:',
+      plans.reduce((sum, plan) => sum + plan.calls.length, 0)
+    )
+  })
+
+task('tieredSale:applyTiers', 'Sends the calls that bring tiers in line with a manifest')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('manifest', 'Tier manifest, .json, .yaml or .yml', undefined, types.inputFile)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        manifest: string
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+
+      try {
+        // diff manifest against chain
+        const manifest = readTierManifest(args.manifest)
+        const onChain = await fetchTiers(sale)
+        const now = (await sale.provider.getBlock('latest')).timestamp
+        const plans = planTiers(manifest, onChain, now)
+
+        console.log('Sale:', args.sale)
+        console.log('---- Plan ----')
+        console.log(formatTierPlans(plans))
+
+        // refuse to apply a partially valid plan
+        if (plans.some((plan) => plan.errors.length > 0)) {
+          throw taskError('Plan has errors, nothing was sent')
+        }
+
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            plans.reduce(
+              (calls, plan) =>
+                calls.concat(plan.calls.map((call) => ({ contract: sale, ...call }))),
+              [] as ContractCall[]
+            ),
+            `Apply ${args.manifest} to ${args.sale}`
+          )
+          return
+        }
+
+        // send the calls tier by tier
+        await sendOrSimulate(sale, dryRun, async () => {
+          console.log('---- Output ----')
+          for (const plan of plans) {
+            for (const call of plan.calls) {
+              const result = await sale[call.method](...call.args)
+              await result.wait()
+              console.log(plan.tierId, call.method, 'Tx hash:', result.hash)
+            }
+          }
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+task('tieredSale:status', 'Prints every tier and the sale totals')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam(
+    'watchBlocks',
+    'Refresh every N blocks, 0 to print once',
+    0,
+    uint
+  )
+  .setAction(async (args: { sale: string; watchBlocks: number }, hre) => {
+    const { contract: sale } = await resolveSale(hre, args.sale, {
+      expected: 'IFTieredSale',
+      readOnly: true,
+    })
+
+    const print = async () => {
+      console.log('Sale:', args.sale)
+      console.log(formatSaleStatus(await fetchSaleStatus(sale)))
+    }
+
+    await print()
+    if (args.watchBlocks <= 0) return
+
+    // watch mode, runs until interrupted
+    let lastBlock = await hre.ethers.provider.getBlockNumber()
+    let refreshing = false
+    await new Promise<void>((_, reject) => {
+      hre.ethers.provider.on('block', (blockNumber: number) => {
+        if (refreshing || blockNumber - lastBlock < args.watchBlocks) return
+        lastBlock = blockNumber
+        refreshing = true
+        console.log('----')
+        print()
+          .catch(reject)
+          .finally(() => {
+            refreshing = false
+          })
+      })
+    })
+  })
+
+task('tieredSale:quote', 'Prints the cost and rewards of a purchase')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('tier', 'Tier id')
+  .addOptionalParam('quantity', 'Nodes to buy', '1', amount)
+  .addOptionalParam('promoCode', 'Named promo code or wallet address')
+  .addOptionalParam(
+    'buyer',
+    'Buyer address, rejects buying with the buyer\'s own wallet code',
+    undefined,
+    address
+  )
+  .setAction(
+    async (
+      args: {
+        sale: string
+        tier: string
+        quantity: string
+        promoCode?: string
+        buyer?: string
+      },
+      hre
+    ) => {
+      const { contract: sale } = await resolveSale(hre, args.sale, {
+        expected: 'IFTieredSale',
+        readOnly: true,
+      })
+
+      const quote = await quoteFromContract(
+        sale,
+        args.tier,
+        args.quantity,
+        args.promoCode,
+        args.buyer
+      )
+
+      // log
+      console.log('Sale:', args.sale)
+      console.log('Tier:', args.tier)
+      console.log('Quantity:', args.quantity)
+      console.log('Promo code:', args.promoCode || '-')
+      console.log('---- Output ----')
+      console.log('Discount:', `${quote.discountPercentage}%`)
+      console.log('Unit price:', quote.unitPrice.toString())
+      console.log('Total cost:', quote.totalCost.toString())
+      console.log('Owner reward:', quote.ownerReward.toString())
+      console.log('Master reward:', quote.masterReward.toString())
+      console.log('Tier bonus:', quote.bonus.toString())
+    }
+  )
+
+task('tieredSale:halt', 'Halts every tier or the given ones, without a prompt')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam('tiers', 'Tier ids, comma separated, empty for every tier', [], list)
+  .addOptionalParam('confirmations', 'Blocks to wait for', 1, uint)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        tiers: string[]
+        confirmations: number
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+      try {
+        const signerAddress = await signer?.getAddress()
+        if (!(await canOperate(sale, signerAddress as string))) {
+          throw taskError(
+            `Signer ${signerAddress} holds neither OPERATOR_ROLE nor DEFAULT_ADMIN_ROLE`
+          )
+        }
+
+        // no prompt, halting is the safe direction
+        selectTiers(await fetchTiers(sale), args.tiers)
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            haltCalls(args.tiers, true).map((call) => ({ contract: sale, ...call })),
+            `Halt ${args.tiers.join(', ') || 'every tier'} on ${args.sale}`
+          )
+          return
+        }
+        await sendOrSimulate(sale, dryRun, async () => {
+          const sent = await setTiersHalted(
+            sale,
+            args.tiers,
+            true,
+            args.confirmations
+          )
+
+          // log
+          console.log('---- Output ----')
+          sent.forEach((tx) => console.log('Tx hash:', tx.hash))
+          console.log(formatSaleStatus(await fetchSaleStatus(sale)))
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+task('tieredSale:resume', 'Unhalts every tier or the given ones, after a prompt')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam('tiers', 'Tier ids, comma separated, empty for every tier', [], list)
+  .addOptionalParam('confirmations', 'Blocks to wait for', 1, uint)
+  .addFlag('yes', 'Skip the prompt, implied by --dry-run and --safe-batch')
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        tiers: string[]
+        confirmations: number
+        yes: boolean
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+      try {
+        const signerAddress = await signer?.getAddress()
+        if (!(await canOperate(sale, signerAddress as string))) {
+          throw taskError(
+            `Signer ${signerAddress} holds neither OPERATOR_ROLE nor DEFAULT_ADMIN_ROLE`
+          )
+        }
+
+        const selected = selectTiers(await fetchTiers(sale), args.tiers)
+        const { timestamp } = await sale.provider.getBlock('latest')
+        const reopening = describeResume(selected, timestamp)
+        if (reopening.length === 0) {
+          console.log('No halted tiers to resume')
+          return
+        }
+
+        console.log('Tiers to reopen:')
+        reopening.forEach((line) => console.log(`  ${line}`))
+        // only the tiers shown above
+        const tierIds = resumeTierIds(selected, args.tiers)
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            haltCalls(tierIds, false).map((call) => ({ contract: sale, ...call })),
+            `Resume ${tierIds.join(', ') || 'every tier'} on ${args.sale}`
+          )
+          return
+        }
+        if (!args.yes && !dryRun && !(await confirm('Resume these tiers?'))) {
+          console.log('Aborted')
+          return
+        }
+
+        await sendOrSimulate(sale, dryRun, async () => {
+          const sent = await setTiersHalted(
+            sale,
+            tierIds,
+            false,
+            args.confirmations
+          )
+
+          // log
+          console.log('---- Output ----')
+          sent.forEach((tx) => console.log('Tx hash:', tx.hash))
+          console.log(formatSaleStatus(await fetchSaleStatus(sale)))
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+task(
+  'tieredSale:safeCashPaymentToken',
+  'Cashes the payment tokens beyond the unclaimed referral rewards'
+)
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+
+      try {
+        // safeCashPaymentToken requires balance > totalRewardsUnclaimed
+        const { totalRewardsUnclaimed, paymentTokenBalance } =
+          await fetchRewardTotals(sale)
+        console.log('Payment token balance:', paymentTokenBalance.toString())
+        console.log('totalRewardsUnclaimed:', totalRewardsUnclaimed.toString())
+        if (paymentTokenBalance.lte(totalRewardsUnclaimed)) {
+          throw taskError('Nothing to cash, the balance does not exceed the unclaimed rewards')
+        }
+        console.log(
+          'To cash:',
+          paymentTokenBalance.sub(totalRewardsUnclaimed).toString()
+        )
+
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            [{ contract: sale, method: 'safeCashPaymentToken', args: [] }],
+            `Cash the payment tokens of ${args.sale}`
+          )
+          return
+        }
+
+        await sendOrSimulate(sale, dryRun, async () => {
+          const result = await sale.safeCashPaymentToken()
+          await result.wait()
+
+          // log
+          console.log('---- Output ----')
+          console.log('Tx hash:', result.hash)
+        })
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
+
+const ROLE_ACTIONS = [
+  'list',
+  'addOperator',
+  'removeOperator',
+  'grantAdmin',
+  'revokeAdmin',
+] as const
+
+task('tieredSale:roles', 'Lists role holders or grants and revokes roles')
+  .addPositionalParam(
+    'action',
+    ROLE_ACTIONS.join(', '),
+    'list',
+    choice(ROLE_ACTIONS)
+  )
+  .addParam('sale', 'Sale address', undefined, address)
+  .addOptionalParam(
+    'account',
+    'Address the role is granted to or revoked from',
+    undefined,
+    address
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'list only, the sale deploy block or earlier',
+    0,
+    uint
+  )
+  .addOptionalParam(
+    'maxBlockRange',
+    'list only, blocks per getLogs call',
+    undefined,
+    uint
+  )
+  .addFlag('force', 'Allow revoking the owner\'s admin role')
+  .addOptionalParam('signer', SIGNER_DESCRIPTION)
+  .addFlag('dryRun', DRY_RUN_DESCRIPTION)
+  .addOptionalParam('safeBatch', SAFE_BATCH_DESCRIPTION)
+  .setAction(
+    async (
+      args: {
+        action: typeof ROLE_ACTIONS[number]
+        sale: string
+        account?: string
+        fromBlock: number
+        maxBlockRange?: number
+        force: boolean
+        signer?: string
+        dryRun: boolean
+        safeBatch?: string
+      },
+      hre
+    ) => {
+      if (args.action === 'list') {
+        const { contract: sale } = await resolveSale(hre, args.sale, {
+          expected: 'IFTieredSale',
+          readOnly: true,
+        })
+        const holders = await fetchRoleHolders(
+          sale,
+          args.fromBlock,
+          args.maxBlockRange
+        )
+        console.log('---- Output ----')
+        console.log(formatRoleHolders(holders))
+        return
+      }
+
+      const account = args.account
+      if (!account) {
+        throw taskError(`${args.action} needs --account`)
+      }
+      const { contract: sale, signer, dryRun } = await resolveSale(
+        hre,
+        args.sale,
+        {
+          expected: 'IFTieredSale',
+          signer: args.signer,
+          dryRun: args.dryRun,
+          safeBatch: !!args.safeBatch,
+        }
+      )
+      try {
+        const signerAddress = await signer?.getAddress()
+        if (!(await sale.hasRole(DEFAULT_ADMIN_ROLE, signerAddress))) {
+          throw taskError(`Signer ${signerAddress} does not hold DEFAULT_ADMIN_ROLE`)
+        }
+
+        const owner: string = await sale.owner()
+        const isOwner = account.toLowerCase() === owner.toLowerCase()
+        if (args.action === 'grantAdmin' && !isOwner) {
+          // ownership and the admin role are expected to move together
+          roleDriftWarnings(owner, [owner, account]).forEach((w) =>
+            console.log('WARNING:', w)
+          )
+        }
+        if (args.action === 'revokeAdmin' && isOwner) {
+          if (!args.force) {
+            throw taskError(
+              'account is the owner, revoking its admin role blocks operator ' +
+                'management (--force to proceed)'
+            )
+          }
+          console.log('WARNING: revoking DEFAULT_ADMIN_ROLE from the owner')
+        }
+
+        const role = args.action.endsWith('Operator')
+          ? OPERATOR_ROLE
+          : DEFAULT_ADMIN_ROLE
+        const call: ContractCall =
+          args.action === 'addOperator' || args.action === 'removeOperator'
+            ? { contract: sale, method: args.action, args: [account] }
+            : {
+                contract: sale,
+                method: args.action === 'grantAdmin' ? 'grantRole' : 'revokeRole',
+                args: [DEFAULT_ADMIN_ROLE, account],
+              }
+
+        if (args.safeBatch) {
+          await writeSafeBatch(
+            hre,
+            args.safeBatch,
+            signer,
+            [call],
+            `${args.action} ${account} on ${args.sale}`
+          )
+          return
+        }
+
+        await sendOrSimulate(
+          sale,
+          dryRun,
+          async () => {
+            const result = await sale[call.method](...call.args)
+            await result.wait()
+
+            // log
+            console.log('---- Output ----')
+            console.log('Action:', args.action, account)
+            console.log('Has role:', await sale.hasRole(role, account))
+            console.log('Tx hash:', result.hash)
+          },
+          { account }
+        )
+      } finally {
+        await dryRun?.stop()
+      }
+    }
+  )
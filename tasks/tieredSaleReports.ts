@@ -0,0 +1,297 @@
+import { task } from 'hardhat/config'
+import { BigNumber } from 'ethers'
+import {
+  buildLedgerPurchases,
+  reconcileLedger,
+} from '../scripts/lib/buyerLedger'
+import {
+  fetchPromoCodeReport,
+  PromoCodeType,
+  walletPromoCodesFromEvents,
+} from '../scripts/lib/promoCodeReport'
+import { writeReport } from '../scripts/lib/report'
+import {
+  fetchRewardTotals,
+  formatRewardsReconciliation,
+  reconcileRewards,
+} from '../scripts/lib/rewardsReconciliation'
+import { indexSaleEvents, JsonlEventStore } from '../scripts/lib/saleIndexer'
+import { resolveSale } from './lib/sale'
+import { address, uint } from './lib/types'
+
+// reports built from the sale state and its indexed events, all read only
+
+task('tieredSale:indexEvents', 'Brings a local event store up to date')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('store', 'Directory for events.jsonl and checkpoint.json')
+  .addOptionalParam('fromBlock', 'Sale deploy block, used on a fresh store', 0, uint)
+  .addOptionalParam('confirmations', 'Blocks to stay behind the head', 12, uint)
+  .addOptionalParam('maxBlockRange', 'Blocks per getLogs call', 5000, uint)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        store: string
+        fromBlock: number
+        confirmations: number
+        maxBlockRange: number
+      },
+      hre
+    ) => {
+      const { contract: sale } = await resolveSale(hre, args.sale, {
+        expected: 'IFTieredSale',
+        readOnly: true,
+      })
+
+      const store = new JsonlEventStore(args.store)
+      const checkpoint = store.getCheckpoint()
+      console.log('Sale:', args.sale)
+      console.log(
+        checkpoint
+          ? `Resuming after block ${checkpoint.lastBlock}`
+          : `Starting at block ${args.fromBlock}`
+      )
+
+      const found = await indexSaleEvents(sale, store, {
+        fromBlock: args.fromBlock,
+        confirmations: args.confirmations,
+        maxBlockRange: args.maxBlockRange,
+        onProgress: (lastBlock, toBlock, count) =>
+          console.log(
+            `Scanned to block ${lastBlock} / ${toBlock}, ${count} event(s)`
+          ),
+      })
+
+      // log
+      console.log('---- Output ----')
+      console.log('New events:', found)
+      console.log('Last block:', store.getCheckpoint()?.lastBlock)
+    }
+  )
+
+task('tieredSale:exportLedger', 'Exports every purchase with the amount paid')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('store', 'Event store of tieredSale:indexEvents, brought up to date first')
+  .addParam('output', 'Ledger file, .csv or .json')
+  .addOptionalParam('buyersOutput', 'Per buyer and tier totals, .csv or .json')
+  .addOptionalParam('fromBlock', 'Sale deploy block, used on a fresh store', 0, uint)
+  .addOptionalParam('confirmations', 'Blocks to stay behind the head', 12, uint)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        store: string
+        output: string
+        buyersOutput?: string
+        fromBlock: number
+        confirmations: number
+      },
+      hre
+    ) => {
+      const { contract: sale } = await resolveSale(hre, args.sale, {
+        expected: 'IFTieredSale',
+        readOnly: true,
+      })
+
+      // catch up on purchase events
+      const store = new JsonlEventStore(args.store)
+      await indexSaleEvents(sale, store, {
+        fromBlock: args.fromBlock,
+        confirmations: args.confirmations,
+      })
+      const lastBlock = store.getCheckpoint()?.lastBlock
+      console.log('Events up to block:', lastBlock)
+
+      // rebuild purchases and cross-check them with purchasedAmountPerTier at
+      // the same block, later purchases are not indexed yet
+      const purchases = await buildLedgerPurchases(sale, store.readEvents())
+      const buyers = await reconcileLedger(sale, purchases, lastBlock)
+      const byBuyer = new Map(buyers.map((b) => [`${b.tierId}\n${b.address}`, b]))
+
+      writeReport(
+        args.output,
+        purchases.map((p) => {
+          const buyer = byBuyer.get(`${p.tierId}\n${p.address}`)
+          return {
+            address: p.address,
+            tierId: p.tierId,
+            quantity: p.quantity,
+            promoCode: p.promoCode,
+            amountPaid: p.amountPaid ?? '',
+            effectivePrice: p.effectivePrice ?? '',
+            transactionHash: p.transactionHash,
+            blockNumber: p.blockNumber,
+            onChainTierTotal: buyer ? buyer.onChainQuantity : '',
+            mismatch: buyer ? buyer.mismatch : false,
+          }
+        })
+      )
+      if (args.buyersOutput) writeReport(args.buyersOutput, buyers)
+
+      // log
+      const mismatches = buyers.filter((b) => b.mismatch)
+      const unpaid = purchases.filter((p) => p.amountPaid === undefined)
+      console.log('---- Output ----')
+      console.log('Purchases:', purchases.length)
+      console.log('Buyers:', new Set(buyers.map((b) => b.address)).size)
+      console.log('Ledger:', args.output)
+      if (unpaid.length > 0) {
+        console.log('---- No payment transfer found:', unpaid.length, '----')
+        unpaid.forEach((p) => console.log(p.transactionHash, p.address, p.tierId))
+      }
+      console.log('---- Mismatches:', mismatches.length, '----')
+      mismatches.forEach((b) =>
+        console.log(
+          b.address,
+          b.tierId,
+          'events',
+          b.eventQuantity,
+          'on chain',
+          b.onChainQuantity
+        )
+      )
+    }
+  )
+
+task('tieredSale:promoCodeReport', 'Exports purchases and earnings per promo code')
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('output', 'Report file, .csv or .json')
+  .addOptionalParam('pageSize', 'Promo codes per call', 100, uint)
+  .addOptionalParam('store', 'Event store used to find wallet promo codes')
+  .addOptionalParam('fromBlock', 'Sale deploy block, used on a fresh store', 0, uint)
+  .addOptionalParam('confirmations', 'Blocks to stay behind the head', 12, uint)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        output: string
+        pageSize: number
+        store?: string
+        fromBlock: number
+        confirmations: number
+      },
+      hre
+    ) => {
+      const { contract: sale } = await resolveSale(hre, args.sale, {
+        expected: 'IFTieredSale',
+        readOnly: true,
+      })
+
+      // wallet promo codes only show up in purchase events, the report is
+      // then read at the last indexed block so both sides agree
+      let walletCodes: string[] = []
+      let blockTag: number | undefined
+      if (args.store) {
+        const store = new JsonlEventStore(args.store)
+        await indexSaleEvents(sale, store, {
+          fromBlock: args.fromBlock,
+          confirmations: args.confirmations,
+        })
+        walletCodes = walletPromoCodesFromEvents(store.readEvents())
+        blockTag = store.getCheckpoint()?.lastBlock
+      } else {
+        console.log('No store specified, wallet promo codes are not included')
+      }
+
+      const rows = await fetchPromoCodeReport(sale, {
+        pageSize: args.pageSize,
+        walletCodes,
+        blockTag,
+      })
+      writeReport(args.output, rows)
+
+      // log
+      console.log('---- Output ----')
+      const codeTypes: PromoCodeType[] = ['named', 'wallet']
+      codeTypes.forEach((type) => {
+        const ofType = rows.filter((r) => r.type === type)
+        const sum = (
+          field: 'totalPurchased' | 'promoCodeOwnerEarnings' | 'masterOwnerEarnings'
+        ) =>
+          ofType
+            .reduce((total, r) => total.add(r[field]), BigNumber.from(0))
+            .toString()
+        console.log(
+          `${type} codes: ${ofType.length}, purchased ${sum('totalPurchased')},`,
+          `unclaimed owner ${sum('promoCodeOwnerEarnings')},`,
+          `unclaimed master ${sum('masterOwnerEarnings')}`
+        )
+      })
+      console.log('Report:', args.output)
+    }
+  )
+
+task(
+  'tieredSale:reconcileRewards',
+  'Checks unclaimed rewards against promo code earnings and the balance'
+)
+  .addParam('sale', 'Sale address', undefined, address)
+  .addParam('store', 'Event store, needed to find wallet promo codes')
+  .addOptionalParam('output', 'Owners with unwithdrawn rewards, .csv or .json')
+  .addOptionalParam('pageSize', 'Promo codes per call', 100, uint)
+  .addOptionalParam('fromBlock', 'Sale deploy block, used on a fresh store', 0, uint)
+  .addOptionalParam('confirmations', 'Blocks to stay behind the head', 12, uint)
+  .setAction(
+    async (
+      args: {
+        sale: string
+        store: string
+        output?: string
+        pageSize: number
+        fromBlock: number
+        confirmations: number
+      },
+      hre
+    ) => {
+      const { contract: sale } = await resolveSale(hre, args.sale, {
+        expected: 'IFTieredSale',
+        readOnly: true,
+      })
+
+      const store = new JsonlEventStore(args.store)
+      await indexSaleEvents(sale, store, {
+        fromBlock: args.fromBlock,
+        confirmations: args.confirmations,
+      })
+
+      // read both sides at the last indexed block, so that wallet codes used
+      // after it do not show up as drift
+      const blockTag = store.getCheckpoint()?.lastBlock
+      const rows = await fetchPromoCodeReport(sale, {
+        pageSize: args.pageSize,
+        walletCodes: walletPromoCodesFromEvents(store.readEvents()),
+        blockTag,
+      })
+      const totals = await fetchRewardTotals(sale, blockTag)
+      const reconciliation = reconcileRewards(
+        rows,
+        totals.totalRewardsUnclaimed,
+        totals.paymentTokenBalance
+      )
+
+      if (args.output) {
+        writeReport(
+          args.output,
+          reconciliation.unwithdrawn.map((o) => ({
+            address: o.address,
+            amount: o.amount.toString(),
+            codes: o.codes.map((c) => `${c.code}:${c.role}`).join(' '),
+          }))
+        )
+      }
+
+      // log
+      console.log('Sale:', args.sale)
+      console.log('Promo codes:', rows.length)
+      console.log('---- Output ----')
+      console.log(formatRewardsReconciliation(reconciliation))
+      if (!reconciliation.drift.isZero()) {
+        console.log(
+          'WARNING: totalRewardsUnclaimed does not match the sum of promo code earnings'
+        )
+      }
+      if (!reconciliation.shortfall.isZero()) {
+        console.log('WARNING: payment token balance does not cover unclaimed rewards')
+      }
+    }
+  )
@@ -0,0 +1,260 @@
+import { task, types } from 'hardhat/config'
+import fs from 'fs'
+import path from 'path'
+import { buildProofBundle } from '../scripts/lib/proofBundle'
+import {
+  exportStandardMerkleTree,
+  importStandardMerkleTree,
+} from '../scripts/lib/standardMerkleTree'
+import { fetchTiers } from '../scripts/lib/tieredSaleConfig'
+import {
+  buildAllocationWhitelist,
+  compareWhitelistRoots,
+  diffWhitelists,
+  formatRootChecks,
+  reducedAllocations,
+} from '../scripts/lib/whitelist'
+import { ingestWhitelist } from '../scripts/lib/whitelistIngest'
+import { taskError } from './lib/errors'
+import { resolveSale } from './lib/sale'
+import { address, amount } from './lib/types'
+
+// a CSV or JSON whitelist, validated like fixedSale:setWhitelist lists
+const readWhitelist = (file: string, allocation?: string) =>
+  buildAllocationWhitelist(
+    ingestWhitelist({ include: [file], defaultAllocation: allocation }).entries
+  )
+
+task('whitelist:exportProofs', 'Writes the proof bundle of a whitelist for the frontend')
+  .addParam('whitelistFile', 'Whitelist, .csv or .json', undefined, types.inputFile)
+  .addOptionalParam('allocation', 'Allocation for entries listed without one', undefined, amount)
+  .addOptionalParam('tier', 'Tier id, only for tiered sales')
+  .addOptionalParam('output', 'Bundle file', 'proofs.json')
+  .setAction(
+    async (args: {
+      whitelistFile: string
+      allocation?: string
+      tier?: string
+      output: string
+    }) => {
+      const whitelist = readWhitelist(args.whitelistFile, args.allocation)
+
+      // write bundle
+      const bundle = buildProofBundle(whitelist, args.tier)
+      fs.writeFileSync(args.output, JSON.stringify(bundle, null, 2))
+
+      // log
+      console.log('Root:', bundle.root)
+      if (args.tier !== undefined) console.log('Tier:', args.tier)
+      console.log('Entries:', bundle.entryCount)
+      console.log('Content hash:', bundle.contentHash)
+      console.log('---- Output ----')
+      console.log('Bundle:', args.output)
+    }
+  )
+
+task('whitelist:diff', 'Compares two revisions of a whitelist')
+  .addParam('oldWhitelistFile', 'Current whitelist, .csv or .json', undefined, types.inputFile)
+  .addParam('newWhitelistFile', 'Revised whitelist, .csv or .json', undefined, types.inputFile)
+  .addOptionalParam('allocation', 'Allocation for entries listed without one', undefined, amount)
+  .addOptionalParam(
+    'sale',
+    'IFTieredSale address, to check what reduced addresses already bought',
+    undefined,
+    address
+  )
+  .addOptionalParam('tier', 'Tier the whitelist is set on')
+  .setAction(
+    async (
+      args: {
+        oldWhitelistFile: string
+        newWhitelistFile: string
+        allocation?: string
+        sale?: string
+        tier?: string
+      },
+      hre
+    ) => {
+      if ((args.sale === undefined) !== (args.tier === undefined)) {
+        throw taskError('sale and tier go together')
+      }
+      const diff = diffWhitelists(
+        readWhitelist(args.oldWhitelistFile, args.allocation),
+        readWhitelist(args.newWhitelistFile, args.allocation)
+      )
+
+      // log
+      console.log('Old root:', diff.oldRoot)
+      console.log('New root:', diff.newRoot)
+      console.log('---- Added:', diff.added.length, '----')
+      diff.added.forEach((e) => console.log(e.address, e.allocation.toString()))
+      console.log('---- Removed:', diff.removed.length, '----')
+      diff.removed.forEach((e) => console.log(e.address, e.allocation.toString()))
+      console.log('---- Changed:', diff.changed.length, '----')
+      diff.changed.forEach((c) => console.log(c.address, c.from, '->', c.to))
+
+      // check what reduced addresses already bought in the tier
+      if (args.sale && args.tier !== undefined) {
+        const { contract: sale } = await resolveSale(hre, args.sale, {
+          expected: 'IFTieredSale',
+          readOnly: true,
+        })
+
+        const lockedOut = []
+        for (const change of reducedAllocations(diff)) {
+          const purchased = await sale.purchasedAmountPerTier(
+            args.tier,
+            change.address
+          )
+          if (purchased.gt(change.to)) {
+            lockedOut.push({ ...change, purchased: purchased.toString() })
+          }
+        }
+
+        console.log(
+          '---- Purchased more than new allocation:',
+          lockedOut.length,
+          '----'
+        )
+        lockedOut.forEach((l) =>
+          console.log(l.address, 'purchased', l.purchased, 'allocation', l.from, '->', l.to)
+        )
+      }
+    }
+  )
+
+task('whitelist:verifyRoot', 'Compares whitelist roots on chain with local files')
+  .addParam('sale', 'Sale address, fixed or tiered', undefined, address)
+  .addOptionalParam('allocation', 'Allocation for entries listed without one', undefined, amount)
+  .addOptionalParam(
+    'whitelistFile',
+    'Fixed sale: whitelist, .csv or .json',
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam(
+    'tierWhitelists',
+    'Tiered sale: JSON of tierId => whitelist path',
+    undefined,
+    types.inputFile
+  )
+  .setAction(
+    async (
+      args: {
+        sale: string
+        allocation?: string
+        whitelistFile?: string
+        tierWhitelists?: string
+      },
+      hre
+    ) => {
+      const { type, contract: sale } = await resolveSale(hre, args.sale, {
+        readOnly: true,
+      })
+
+      // roots by tier id, '' for a fixed sale
+      const localRoots: Record<string, string> = {}
+      const onChainRoots: Record<string, string> = {}
+
+      if (type === 'IFFixedSale') {
+        if (!args.whitelistFile) {
+          throw taskError(`${args.sale} is an IFFixedSale, whitelistFile is required`)
+        }
+        localRoots[''] = readWhitelist(args.whitelistFile, args.allocation).root
+        onChainRoots[''] = await sale.whitelistRootHash()
+      } else {
+        if (!args.tierWhitelists) {
+          throw taskError(`${args.sale} is an IFTieredSale, tierWhitelists is required`)
+        }
+
+        // whitelist paths are relative to the mapping file
+        const tierWhitelists: Record<string, string> = JSON.parse(
+          fs.readFileSync(args.tierWhitelists, 'utf8')
+        )
+        const baseDir = path.dirname(args.tierWhitelists)
+        Object.keys(tierWhitelists).forEach((tierId) => {
+          localRoots[tierId] = readWhitelist(
+            path.resolve(baseDir, tierWhitelists[tierId]),
+            args.allocation
+          ).root
+        })
+
+        const tiers = await fetchTiers(sale)
+        tiers.forEach((tier) => {
+          onChainRoots[tier.tierId] = tier.whitelistRootHash
+        })
+      }
+
+      // compare
+      const checks = compareWhitelistRoots(localRoots, onChainRoots)
+      console.log('Sale:', args.sale)
+      console.log('---- Output ----')
+      console.log(formatRootChecks(checks))
+
+      const mismatches = checks.filter((check) => !check.ok).length
+      if (mismatches > 0) {
+        throw taskError(`${mismatches} whitelist root(s) do not match`)
+      }
+    }
+  )
+
+task(
+  'whitelist:importStandardTree',
+  'Converts an OpenZeppelin StandardMerkleTree dump to a whitelist'
+)
+  .addParam('input', 'StandardMerkleTree JSON dump', undefined, types.inputFile)
+  .addOptionalParam('allocation', 'Allocation for address-only dumps', undefined, amount)
+  .addOptionalParam('output', 'Whitelist file', 'whitelist.json')
+  .setAction(
+    async (args: { input: string; allocation?: string; output: string }) => {
+      // read dump and rebuild with our leaf encoding
+      const dump = JSON.parse(fs.readFileSync(args.input, 'utf8'))
+      const entries = importStandardMerkleTree(dump, args.allocation)
+      const whitelist = buildAllocationWhitelist(entries)
+
+      // write whitelist in the { address, allocation } list layout
+      fs.writeFileSync(
+        args.output,
+        JSON.stringify(
+          whitelist.entries.map((e) => ({
+            address: e.address,
+            allocation: e.allocation.toString(),
+          })),
+          null,
+          2
+        )
+      )
+
+      // log
+      console.log('Entries:', whitelist.entries.length)
+      console.log('StandardMerkleTree root (not usable on our sales):', dump.tree[0])
+      console.log('---- Output ----')
+      console.log('Whitelist root:', whitelist.root)
+      console.log('Whitelist:', args.output)
+    }
+  )
+
+task(
+  'whitelist:exportStandardTree',
+  'Converts a whitelist to an OpenZeppelin StandardMerkleTree dump'
+)
+  .addParam('whitelistFile', 'Whitelist, .csv or .json', undefined, types.inputFile)
+  .addOptionalParam('allocation', 'Allocation for entries listed without one', undefined, amount)
+  .addOptionalParam('output', 'Dump file', 'tree.json')
+  .setAction(
+    async (args: { whitelistFile: string; allocation?: string; output: string }) => {
+      // read whitelist, building it validates the entries
+      const whitelist = readWhitelist(args.whitelistFile, args.allocation)
+
+      // write dump
+      const dump = exportStandardMerkleTree(whitelist.entries)
+      fs.writeFileSync(args.output, JSON.stringify(dump, null, 2))
+
+      // log
+      console.log('Entries:', whitelist.entries.length)
+      console.log('Whitelist root:', whitelist.root)
+      console.log('---- Output ----')
+      console.log('StandardMerkleTree root (not usable on our sales):', dump.tree[0])
+      console.log('Dump:', args.output)
+    }
+  )
@@ -10,16 +10,14 @@ import { getBlockTime, mineNext, mineTimeDelta } from './helpers'
 import { EXCEED_MAX_PAYMENT, NO_TOKEN_TO_BE_WITHDRAWN, NOT_A_GIVEAWAY, NOT_WHITELIST_SETTER_OR_OWNER, USE_VESTED_WITHDRAW_GIVEAWAY } from './reverts/msg-IFSale'
 import IFFixedSale from '../artifacts/contracts/IFFixedSale.sol/IFFixedSale.json'
 import ERC20 from '../artifacts/contracts/GenericToken.sol/GenericToken.json'
+import { packWhitelistLeaf } from '../scripts/lib/whitelist'
 
 export function computeMerkleRootWithAllocation(signers: SignerWithAddress[], allocations: number[]): [string[], Map<string, string>]{
     const leaves: string[] = []
     const addressValMap = new Map()
     signers.forEach((s: SignerWithAddress, i: number) => {
         const amount = allocations[i].toString()
-        const packed = ethers.utils.solidityPack(
-          ['address', 'uint256'],
-          [s.address.toLowerCase(), amount],
-        )
+        const packed = packWhitelistLeaf(s.address, amount)
         leaves.push(packed)
         addressValMap.set(s.address.toLowerCase(), packed)
       }
@@ -0,0 +1,98 @@
+import { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { buildLedgerPurchases, reconcileLedger } from '../scripts/lib/buyerLedger'
+import { fetchSaleEvents } from '../scripts/lib/saleIndexer'
+import { getBlockTime, mineTimeDelta } from './helpers'
+
+describe('Buyer ledger', function () {
+  let tieredSale: Contract
+  let deployer: SignerWithAddress, user: SignerWithAddress, referrer: SignerWithAddress
+  let deployBlock: number
+
+  const tierId = 'tier1'
+  const promoCode = 'SAVE20'
+  const price = ethers.utils.parseEther('1')
+
+  beforeEach(async function () {
+    [deployer, user, referrer] = await ethers.getSigners()
+
+    const Token = await ethers.getContractFactory('GenericToken')
+    const paymentToken = await Token.deploy('Mock Token', 'MTKP', 18)
+    const saleToken = await Token.deploy('Mock Token Sale', 'MTKS', 18)
+    for (const wallet of [user, referrer]) {
+      await paymentToken.mint(wallet.address, ethers.utils.parseEther('100'))
+    }
+
+    const startTime = (await getBlockTime()) + 100
+    const TieredSaleFactory = await ethers.getContractFactory('IFTieredSale')
+    tieredSale = await TieredSaleFactory.deploy(
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 86400
+    )
+    deployBlock = (await tieredSale.deployTransaction.wait()).blockNumber
+
+    await tieredSale.setTier(
+      tierId, price, 100, 10, ethers.constants.HashZero,
+      0, false, true, true, startTime, startTime + 86400
+    )
+    await tieredSale.addPromoCode(promoCode, 20, referrer.address, deployer.address, 0, 0)
+    for (const wallet of [user, referrer]) {
+      await paymentToken.connect(wallet).approve(tieredSale.address, ethers.utils.parseEther('100'))
+    }
+    await mineTimeDelta(100)
+    await tieredSale.connect(user).whitelistedPurchaseInTierWithCode(tierId, 2, [], promoCode, 0)
+    await tieredSale.connect(user).whitelistedPurchaseInTier(tierId, 1, [], 0)
+    await tieredSale.connect(referrer).whitelistedPurchaseInTier(tierId, 3, [], 0)
+  })
+
+  it('rebuilds purchases with the effective price paid', async function () {
+    const events = await fetchSaleEvents(tieredSale, deployBlock, await ethers.provider.getBlockNumber())
+    const purchases = await buildLedgerPurchases(tieredSale, events)
+
+    expect(purchases.map((p) => [p.address, p.quantity, p.promoCode, p.effectivePrice])).to.deep.equal([
+      [user.address, '2', promoCode, price.mul(80).div(100).toString()],
+      [user.address, '1', '', price.toString()],
+      [referrer.address, '3', '', price.toString()],
+    ])
+    expect(purchases[0].amountPaid).to.equal(price.mul(80).div(100).mul(2).toString())
+  })
+
+  it('matches purchasedAmountPerTier for every buyer', async function () {
+    const events = await fetchSaleEvents(tieredSale, deployBlock, await ethers.provider.getBlockNumber())
+    const buyers = await reconcileLedger(tieredSale, await buildLedgerPurchases(tieredSale, events))
+
+    expect(buyers.map((b) => [b.address, b.eventQuantity, b.onChainQuantity, b.mismatch])).to.deep.equal([
+      [user.address, '3', '3', false],
+      [referrer.address, '3', '3', false],
+    ])
+  })
+
+  it('flags buyers whose events do not add up', async function () {
+    const events = await fetchSaleEvents(tieredSale, deployBlock, await ethers.provider.getBlockNumber())
+    // lose the second purchase of user, as if a range had been skipped
+    const purchases = await buildLedgerPurchases(
+      tieredSale,
+      events.filter((e, i) => i !== events.length - 2)
+    )
+    const buyers = await reconcileLedger(tieredSale, purchases)
+
+    expect(buyers.filter((b) => b.mismatch)).to.deep.equal([
+      { address: user.address, tierId, eventQuantity: '2', onChainQuantity: '3', mismatch: true },
+    ])
+  })
+
+  it('reads purchasedAmountPerTier at the last indexed block', async function () {
+    const lastBlock = await ethers.provider.getBlockNumber()
+    const events = await fetchSaleEvents(tieredSale, deployBlock, lastBlock)
+    // a purchase past the indexed range
+    await tieredSale.connect(referrer).whitelistedPurchaseInTier(tierId, 1, [], 0)
+
+    const purchases = await buildLedgerPurchases(tieredSale, events)
+    expect((await reconcileLedger(tieredSale, purchases, lastBlock)).filter((b) => b.mismatch)).to.be.empty
+    expect((await reconcileLedger(tieredSale, purchases)).filter((b) => b.mismatch)).to.have.length(1)
+  })
+})
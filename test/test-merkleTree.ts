@@ -0,0 +1,52 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { MerkleTree } from '../scripts/lib/merkleTree'
+import { computeMerkleProof, computeMerkleRoot, getAddressIndex } from './merkleWhitelist'
+
+// packed (address, allocation) leaves
+const makeItems = (count: number): string[] => {
+  return Array.from({ length: count }, (_, i) =>
+    ethers.utils.solidityPack(
+      ['address', 'uint256'],
+      [ethers.utils.hexDataSlice(ethers.utils.id(`wallet${i}`), 12), i + 1]
+    )
+  )
+}
+
+describe('Merkle tree', function () {
+  it('matches the legacy root and proofs', function () {
+    for (const count of [1, 2, 3, 4, 5, 7, 16, 33]) {
+      const items = makeItems(count)
+      const tree = new MerkleTree(items)
+      expect(tree.root).to.equal(computeMerkleRoot([...items]))
+      items.forEach((item) => {
+        const legacyIndex = getAddressIndex([...items], item)
+        expect(tree.indexOf(item)).to.equal(legacyIndex)
+        expect(tree.getProofByItem(item)).to.deep.equal(
+          computeMerkleProof([...items], legacyIndex)
+        )
+      })
+    }
+  })
+
+  it('matches the legacy root when values repeat', function () {
+    const items = makeItems(4)
+    const withDuplicates = [items[0], items[0], items[1], items[2], items[3], items[3], items[3]]
+    expect(new MerkleTree(withDuplicates).root).to.equal(computeMerkleRoot([...withDuplicates]))
+  })
+
+  it('does not modify its input', function () {
+    const items = makeItems(5).reverse()
+    const copy = [...items]
+    new MerkleTree(items)
+    expect(items).to.deep.equal(copy)
+  })
+
+  it('serves proofs for large lists', function () {
+    this.timeout(60000)
+    const items = makeItems(20000)
+    const tree = new MerkleTree(items)
+    expect(tree.getProofByItem(items[12345])).to.have.length(tree.levels.length - 1)
+    expect(tree.indexOf('0x1234')).to.equal(-1)
+  })
+})
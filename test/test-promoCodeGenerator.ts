@@ -0,0 +1,62 @@
+import { expect } from 'chai'
+import { DEFAULT_ALPHABET, generatePromoCodes } from '../scripts/lib/promoCodeGenerator'
+import { isWalletPromoCode } from '../scripts/lib/tieredSaleConfig'
+
+describe('Promo code generator', function () {
+  // deterministic picks, cycling through 0..n-1
+  const sequence = (values: number[]) => {
+    let i = 0
+    return (max: number) => values[i++ % values.length] % max
+  }
+
+  it('builds codes from a prefix and the alphabet', function () {
+    const codes = generatePromoCodes({ count: 50, prefix: 'KOL', separator: '-', length: 6 })
+    expect(codes).to.have.length(50)
+    expect(new Set(codes).size).to.equal(50)
+    codes.forEach((code) => {
+      expect(code).to.match(new RegExp(`^KOL-[${DEFAULT_ALPHABET}]{6}$`))
+    })
+  })
+
+  it('builds codes from a wordlist', function () {
+    const codes = generatePromoCodes({
+      count: 2,
+      wordlist: ['moon', 'node', 'fast'],
+      words: 2,
+      separator: '-',
+      randomInt: sequence([0, 1, 2, 0]),
+    })
+    expect(codes).to.deep.equal(['moon-node', 'fast-moon'])
+  })
+
+  it('skips codes that are taken, ignoring case', function () {
+    // A is taken as a, the second B repeats the first
+    const codes = generatePromoCodes(
+      { count: 2, alphabet: 'ABC', length: 1, randomInt: sequence([0, 1, 1, 2]) },
+      ['a']
+    )
+    expect(codes).to.deep.equal(['B', 'C'])
+  })
+
+  it('never produces a 42 byte code', function () {
+    // prefix of 40 + 2 random characters would be 42 bytes
+    expect(() =>
+      generatePromoCodes({ count: 1, prefix: 'P'.repeat(40), length: 2 })
+    ).to.throw('42 byte codes, which IFTieredSale reads as wallet codes')
+    expect(() =>
+      generatePromoCodes({ count: 1, prefix: 'P'.repeat(39), separator: '-', length: 2 })
+    ).to.throw('42 byte codes')
+    // no separator without a prefix, so these codes are 41 bytes
+    const unprefixed = generatePromoCodes({ count: 1, separator: '-', length: 41 })
+    expect(unprefixed[0]).to.have.length(41)
+
+    const codes = generatePromoCodes({ count: 20, prefix: 'P'.repeat(40), length: 3 })
+    codes.forEach((code) => expect(isWalletPromoCode(code)).to.be.false)
+  })
+
+  it('fails when the code space is used up', function () {
+    expect(() => generatePromoCodes({ count: 3, alphabet: 'AB', length: 1 })).to.throw(
+      'Only 2 of 3 unique codes found'
+    )
+  })
+})
@@ -0,0 +1,104 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  defaultResultFile,
+  planPromoCodeImport,
+  readImportResults,
+  readPromoCodeCsv,
+} from '../scripts/lib/promoCodeImport'
+import { writeReport } from '../scripts/lib/report'
+
+describe('Promo code import', function () {
+  const owner = '0x00000000000000000000000000000000000000a1'
+  const master = '0x00000000000000000000000000000000000000b2'
+  let dir: string
+
+  const writeCsv = (lines: string[]) => {
+    const file = path.join(dir, 'codes.csv')
+    fs.writeFileSync(file, lines.join('\n') + '\n')
+    return file
+  }
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'promo-import-'))
+  })
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads rows with a header and validates them like addPromoCode', function () {
+    const rows = readPromoCodeCsv(
+      writeCsv([
+        'code,discount,owner,master,baseOverride,masterOverride',
+        `SAVE20,20,${owner},${master},,`,
+        `BIG,101,${owner},${master},0,0`,
+        `SAME,10,${owner},${owner},0,0`,
+        `OVER,10,${owner},${master},11,3`,
+        `${'X'.repeat(42)},10,${owner},${master},0,0`,
+        `,10,${owner},${master},0,0`,
+        `FRACTION,2.5,${owner},${master},0,0`,
+      ])
+    )
+
+    expect(rows[0].promo).to.deep.equal({
+      code: 'SAVE20',
+      discountPercentage: 20,
+      promoCodeOwnerAddress: owner,
+      masterOwnerAddress: master,
+      baseOwnerPercentageOverride: 0,
+      masterOwnerPercentageOverride: 0,
+    })
+    expect(rows.map((r) => [r.line, r.errors])).to.deep.equal([
+      [2, []],
+      [3, ['Invalid discount percentage']],
+      [4, ['Promo code owner and master owner cannot be the same']],
+      [5, ['Invalid base owner percentage', 'Invalid master owner percentage']],
+      [6, ['Address promo codes are not allowed']],
+      [7, ['Invalid promo code']],
+      [8, ['Invalid discount 2.5']],
+    ])
+  })
+
+  it('reads rows without a header in the documented column order', function () {
+    const rows = readPromoCodeCsv(writeCsv([`KOL1,15,${owner},${master},5,1`]))
+    expect(rows[0].line).to.equal(1)
+    expect(rows[0].promo?.baseOwnerPercentageOverride).to.equal(5)
+    expect(rows[0].promo?.masterOwnerPercentageOverride).to.equal(1)
+  })
+
+  it('skips invalid, repeated and existing codes', function () {
+    const rows = readPromoCodeCsv(
+      writeCsv([
+        'code,discount,owner,master',
+        `NEW,10,${owner},${master}`,
+        `OLD,10,${owner},${master}`,
+        `NEW,20,${owner},${master}`,
+        `BAD,10,${owner},${owner}`,
+      ])
+    )
+    const plan = planPromoCodeImport(rows, ['OLD'])
+
+    expect(plan.toAdd.map((a) => [a.line, a.promo.code])).to.deep.equal([[2, 'NEW']])
+    expect(plan.results.map((r) => [r.line, r.status])).to.deep.equal([
+      [3, 'exists'],
+      [4, 'invalid'],
+      [5, 'invalid'],
+    ])
+  })
+
+  it('resumes from the result file of an earlier run', function () {
+    const file = writeCsv(['code,discount,owner,master', `A,10,${owner},${master}`, `B,10,${owner},${master}`])
+    const resultFile = defaultResultFile(file)
+    expect(resultFile).to.equal(path.join(dir, 'codes.result.csv'))
+
+    // the first run added A, then stopped
+    writeReport(resultFile, [{ line: 2, code: 'A', status: 'added', txHash: '0x1234', error: '' }])
+    const plan = planPromoCodeImport(readPromoCodeCsv(file), ['A'], readImportResults(resultFile))
+
+    expect(plan.toAdd.map((a) => a.promo.code)).to.deep.equal(['B'])
+    expect(plan.results).to.deep.equal([{ line: 2, code: 'A', status: 'added', txHash: '0x1234', error: '' }])
+  })
+})
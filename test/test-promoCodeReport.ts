@@ -0,0 +1,91 @@
+import { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import {
+  fetchPromoCodeNames,
+  fetchPromoCodeReport,
+  walletPromoCodesFromEvents,
+} from '../scripts/lib/promoCodeReport'
+import { fetchSaleEvents } from '../scripts/lib/saleIndexer'
+import { getBlockTime, mineTimeDelta } from './helpers'
+
+describe('Promo code report', function () {
+  let tieredSale: Contract
+  let deployer: SignerWithAddress, user: SignerWithAddress, referrer: SignerWithAddress
+  let deployBlock: number
+
+  const tierId = 'tier1'
+  const codes = ['CODE0', 'CODE1', 'CODE2', 'CODE3', 'CODE4']
+  const price = ethers.utils.parseEther('1')
+
+  beforeEach(async function () {
+    [deployer, user, referrer] = await ethers.getSigners()
+
+    const Token = await ethers.getContractFactory('GenericToken')
+    const paymentToken = await Token.deploy('Mock Token', 'MTKP', 18)
+    const saleToken = await Token.deploy('Mock Token Sale', 'MTKS', 18)
+
+    const startTime = (await getBlockTime()) + 100
+    const TieredSaleFactory = await ethers.getContractFactory('IFTieredSale')
+    tieredSale = await TieredSaleFactory.deploy(
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 86400
+    )
+    deployBlock = (await tieredSale.deployTransaction.wait()).blockNumber
+
+    await tieredSale.setTier(
+      tierId, price, 100, 10, ethers.constants.HashZero,
+      0, false, true, true, startTime, startTime + 86400
+    )
+    for (let i = 0; i < codes.length; i++) {
+      await tieredSale.addPromoCode(codes[i], 10 + i, referrer.address, deployer.address, 0, 0)
+    }
+    for (const wallet of [user, referrer]) {
+      await paymentToken.mint(wallet.address, ethers.utils.parseEther('100'))
+      await paymentToken.connect(wallet).approve(tieredSale.address, ethers.utils.parseEther('100'))
+    }
+    await mineTimeDelta(100)
+
+    // referrer buys a node, which turns its address into a wallet promo code
+    await tieredSale.connect(referrer).whitelistedPurchaseInTier(tierId, 1, [], 0)
+    await tieredSale.connect(user).whitelistedPurchaseInTierWithCode(tierId, 2, [], 'CODE3', 0)
+    await tieredSale.connect(user).whitelistedPurchaseInTierWithWalletCode(tierId, 1, [], referrer.address, 0)
+  })
+
+  it('reads every promo code across pages', async function () {
+    // pages after the first hit the getAllPromoCodes indexing bug and use the fallback
+    expect(await fetchPromoCodeNames(tieredSale, 2)).to.deep.equal(codes)
+    expect(await fetchPromoCodeNames(tieredSale, 100)).to.deep.equal(codes)
+  })
+
+  it('finds wallet promo codes in purchase events', async function () {
+    const events = await fetchSaleEvents(tieredSale, deployBlock, await ethers.provider.getBlockNumber())
+    expect(walletPromoCodesFromEvents(events)).to.deep.equal([referrer.address.toLowerCase()])
+  })
+
+  it('reports named and wallet codes with their earnings', async function () {
+    const walletCode = referrer.address.toLowerCase()
+    const rows = await fetchPromoCodeReport(tieredSale, { pageSize: 2, walletCodes: [walletCode] })
+
+    expect(rows.map((r) => [r.code, r.type])).to.deep.equal([
+      ...codes.map((code) => [code, 'named']),
+      [walletCode, 'wallet'],
+    ])
+
+    const named = rows[3]
+    const namedCost = price.mul(100 - 13).div(100).mul(2)
+    expect(named.discountPercentage).to.equal(13)
+    expect(named.totalPurchased).to.equal(namedCost.toString())
+    expect(named.codePurchaseAmount).to.equal(namedCost.toString())
+    expect(named.promoCodeOwnerAddress).to.equal(referrer.address)
+
+    const wallet = rows[5]
+    const walletCost = price.mul(100 - 5).div(100)
+    expect(wallet.discountPercentage).to.equal(5)
+    expect(wallet.totalPurchased).to.equal(walletCost.toString())
+    expect(wallet.promoCodeOwnerEarnings).to.equal(walletCost.mul(8).div(100).toString())
+  })
+})
@@ -0,0 +1,62 @@
+import { expect } from 'chai'
+import { PromoCodeReportRow } from '../scripts/lib/promoCodeReport'
+import { reconcileRewards } from '../scripts/lib/rewardsReconciliation'
+
+describe('Referral rewards reconciliation', function () {
+  const alice = '0x00000000000000000000000000000000000000a1'
+  const bob = '0x00000000000000000000000000000000000000b0'
+  const master = '0x00000000000000000000000000000000000000f0'
+
+  const row = (
+    code: string,
+    owner: string,
+    ownerEarnings: number,
+    masterEarnings: number
+  ): PromoCodeReportRow => ({
+    code,
+    type: code.length === 42 ? 'wallet' : 'named',
+    discountPercentage: 10,
+    promoCodeOwnerAddress: owner,
+    masterOwnerAddress: code.length === 42 ? '0x0000000000000000000000000000000000000000' : master,
+    baseOwnerPercentageOverride: 0,
+    masterOwnerPercentageOverride: 0,
+    totalPurchased: '0',
+    codePurchaseAmount: '0',
+    promoCodeOwnerEarnings: ownerEarnings.toString(),
+    masterOwnerEarnings: masterEarnings.toString(),
+  })
+
+  const rows = [row('ALICE', alice, 100, 20), row('BOB', bob, 0, 10), row(alice, alice, 30, 0)]
+
+  it('sums earnings and computes the safe cashable amount', function () {
+    const r = reconcileRewards(rows, 160, 1000)
+    expect(r.ownerEarnings.toNumber()).to.equal(130)
+    expect(r.masterEarnings.toNumber()).to.equal(30)
+    expect(r.drift.toNumber()).to.equal(0)
+    expect(r.safeCashable.toNumber()).to.equal(840)
+    expect(r.shortfall.toNumber()).to.equal(0)
+  })
+
+  it('reports drift and a shortfall against the larger total', function () {
+    const r = reconcileRewards(rows, 150, 155)
+    expect(r.drift.toNumber()).to.equal(-10)
+    expect(r.safeCashable.toNumber()).to.equal(5)
+    expect(r.shortfall.toNumber()).to.equal(5)
+  })
+
+  it('has nothing safely cashable when the balance only covers rewards', function () {
+    const r = reconcileRewards(rows, 160, 160)
+    expect(r.safeCashable.toNumber()).to.equal(0)
+    expect(r.shortfall.toNumber()).to.equal(0)
+  })
+
+  it('lists owners with unwithdrawn rewards, largest first', function () {
+    const r = reconcileRewards(rows, 160, 1000)
+    expect(
+      r.unwithdrawn.map((o) => [o.address, o.amount.toNumber(), o.codes.map((c) => `${c.code}:${c.role}`)])
+    ).to.deep.equal([
+      [alice, 130, ['ALICE:owner', `${alice}:owner`]],
+      [master, 30, ['ALICE:master', 'BOB:master']],
+    ])
+  })
+})
@@ -0,0 +1,109 @@
+import { expect } from 'chai'
+import { Contract, ethers } from 'ethers'
+import { ERC20_ABI } from '../scripts/lib/erc20'
+import {
+  buildSafeBatch,
+  decodeSafeBatch,
+  formatDecodedBatch,
+  SafeBatch,
+} from '../scripts/lib/safeBatch'
+
+describe('Safe batch', function () {
+  const SALE_ABI = [
+    'function setCliffPeriod(uint256[] claimTimes, uint8[] pct)',
+    'function updateIsHalt(string _tierId, bool _isHalt)',
+    'function cash()',
+  ]
+  const sale = new Contract(ethers.Wallet.createRandom().address, SALE_ABI)
+  const token = new Contract(ethers.Wallet.createRandom().address, ERC20_ABI)
+  const safe = ethers.Wallet.createRandom().address
+  const interfaces = [sale.interface, token.interface]
+
+  const batch = (): SafeBatch =>
+    buildSafeBatch(
+      56,
+      safe.toLowerCase(),
+      [
+        { contract: token, method: 'approve', args: [sale.address, '1000'] },
+        {
+          contract: sale,
+          method: 'setCliffPeriod',
+          args: [[1700000000, 1702592000], [40, 60]],
+        },
+        { contract: sale, method: 'updateIsHalt', args: ['tier1', false] },
+        { contract: sale, method: 'cash', args: [] },
+      ],
+      'test',
+      1
+    )
+
+  it('writes a Transaction Builder batch with a decoded preview', function () {
+    const built = batch()
+    expect(built.chainId).to.equal('56')
+    expect(built.meta.createdFromSafeAddress).to.equal(safe)
+    expect(built.transactions).to.have.length(4)
+
+    const [approve, cliff, halt] = built.transactions
+    expect(approve.to).to.equal(token.address)
+    expect(approve.value).to.equal('0')
+    expect(approve.data).to.equal(
+      token.interface.encodeFunctionData('approve', [sale.address, 1000])
+    )
+    expect(approve.contractMethod?.name).to.equal('approve')
+    expect(cliff.contractInputsValues).to.deep.equal({
+      claimTimes: '["1700000000","1702592000"]',
+      pct: '["40","60"]',
+    })
+    expect(halt.contractInputsValues).to.deep.equal({
+      _tierId: 'tier1',
+      _isHalt: 'false',
+    })
+  })
+
+  it('decodes a batch back into calls', function () {
+    const decoded = decodeSafeBatch(batch(), interfaces)
+    expect(decoded.map((tx) => tx.signature)).to.deep.equal([
+      'approve(address,uint256)',
+      'setCliffPeriod(uint256[],uint8[])',
+      'updateIsHalt(string,bool)',
+      'cash()',
+    ])
+    expect(decoded.every((tx) => tx.problems.length === 0)).to.be.true
+    expect(formatDecodedBatch(decoded.slice(1, 2))).to.equal(
+      [
+        `#2 ${sale.address} setCliffPeriod(uint256[],uint8[])`,
+        '    claimTimes: ["1700000000","1702592000"]',
+        '    pct: ["40","60"]',
+      ].join('\n')
+    )
+  })
+
+  it('encodes transactions exported without data from their preview', function () {
+    const built = batch()
+    built.transactions.forEach((tx) => (tx.data = null))
+    expect(decodeSafeBatch(built, interfaces)).to.deep.equal(
+      decodeSafeBatch(batch(), interfaces)
+    )
+  })
+
+  it('flags a preview that does not match the data', function () {
+    const built = batch()
+    const preview = built.transactions[1].contractInputsValues
+    if (preview) preview.pct = '["60","40"]'
+    built.transactions[3].value = '1'
+    built.transactions[2].data = '0xdeadbeef'
+
+    const decoded = decodeSafeBatch(built, interfaces)
+    expect(decoded[0].problems).to.deep.equal([])
+    expect(decoded[1].problems).to.deep.equal([
+      'contractInputsValues.pct is ["60","40"], the data encodes ["40","60"]',
+    ])
+    expect(decoded[2].problems).to.deep.equal([
+      'Unknown function selector 0xdeadbeef',
+      'contractMethod does not match the data',
+    ])
+    expect(decoded[3].problems).to.deep.equal([
+      'Sends 1 wei to a non payable function',
+    ])
+  })
+})
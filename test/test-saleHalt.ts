@@ -0,0 +1,74 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  describeResume,
+  haltCalls,
+  resumeTierIds,
+  selectTiers,
+} from '../scripts/lib/saleHalt'
+import { TierConfig } from '../scripts/lib/tieredSaleConfig'
+
+describe('Sale halt', function () {
+  const now = 1_700_000_000
+
+  const tier = (
+    tierId: string,
+    isHalt: boolean,
+    startTime: number,
+    endTime: number
+  ): TierConfig => ({
+    tierId,
+    price: 1,
+    maxTotalPurchasable: 0,
+    maxAllocationPerWallet: 0,
+    bonusPercentage: 0,
+    whitelistRootHash: ethers.constants.HashZero,
+    isHalt,
+    allowPromoCode: false,
+    allowWalletPromoCode: false,
+    startTime,
+    endTime,
+  })
+
+  const tiers = [
+    tier('active', true, now - 3600, now + 7200),
+    tier('upcoming', true, now + 86400, now + 2 * 86400),
+    tier('ended', true, now - 7200, now - 3600),
+    tier('running', false, now - 3600, now + 3600),
+  ]
+
+  it('selects every tier or the named ones', function () {
+    expect(selectTiers(tiers, [])).to.have.length(4)
+    const selected = selectTiers(tiers, ['ended', 'active'])
+    expect(selected.map((t) => t.tierId)).to.deep.equal(['active', 'ended'])
+    expect(() => selectTiers(tiers, ['active', 'missing'])).to.throw(
+      'Unknown tiers: missing'
+    )
+  })
+
+  it('lists halted tiers with their time window', function () {
+    expect(describeResume(tiers, now)).to.deep.equal([
+      'active: inside its window, ends in 2h 0m',
+      'upcoming: not started, starts in 1d 0m',
+      'ended: window ended, stays closed',
+    ])
+  })
+
+  it('resumes only the named tiers that are halted', function () {
+    const named = ['running', 'ended']
+    expect(resumeTierIds(selectTiers(tiers, named), named)).to.deep.equal([
+      'ended',
+    ])
+    expect(resumeTierIds(tiers, [])).to.deep.equal([])
+  })
+
+  it('halts every tier at once or the named ones one by one', function () {
+    expect(haltCalls([], true)).to.deep.equal([
+      { method: 'haltAllTiers', args: [] },
+    ])
+    expect(haltCalls(['a', 'b'], false)).to.deep.equal([
+      { method: 'updateIsHalt', args: ['a', false] },
+      { method: 'updateIsHalt', args: ['b', false] },
+    ])
+  })
+})
@@ -0,0 +1,167 @@
+import { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { Contract } from 'ethers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { indexSaleEvents, JsonlEventStore } from '../scripts/lib/saleIndexer'
+import { getBlockTime, mineNext, mineTimeDelta } from './helpers'
+
+describe('Sale event indexer', function () {
+  let tieredSale: Contract
+  let deployer: SignerWithAddress, user: SignerWithAddress, referrer: SignerWithAddress
+  let deployBlock: number
+  let storeDir: string
+
+  const tierId = 'tier1'
+  const promoCode = 'SAVE20'
+
+  beforeEach(async function () {
+    [deployer, user, referrer] = await ethers.getSigners()
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'))
+
+    const Token = await ethers.getContractFactory('GenericToken')
+    const paymentToken = await Token.deploy('Mock Token', 'MTKP', 18)
+    const saleToken = await Token.deploy('Mock Token Sale', 'MTKS', 18)
+    await paymentToken.mint(user.address, ethers.utils.parseEther('100'))
+
+    const startTime = (await getBlockTime()) + 100
+    const TieredSaleFactory = await ethers.getContractFactory('IFTieredSale')
+    tieredSale = await TieredSaleFactory.deploy(
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 86400
+    )
+    await tieredSale.deployed()
+    deployBlock = (await tieredSale.deployTransaction.wait()).blockNumber
+
+    // TierUpdated, PromoCodeAdded then two PurchasedInTier
+    await tieredSale.setTier(
+      tierId, ethers.utils.parseEther('1'), 100, 10, ethers.constants.HashZero,
+      0, false, true, true, startTime, startTime + 86400
+    )
+    await tieredSale.addPromoCode(promoCode, 20, referrer.address, deployer.address, 0, 0)
+    await paymentToken.connect(user).approve(tieredSale.address, ethers.utils.parseEther('100'))
+    await mineTimeDelta(100)
+    await tieredSale.connect(user).whitelistedPurchaseInTierWithCode(tierId, 2, [], promoCode, 0)
+    await tieredSale.connect(user).whitelistedPurchaseInTier(tierId, 1, [], 0)
+  })
+
+  afterEach(function () {
+    fs.rmSync(storeDir, { recursive: true, force: true })
+  })
+
+  it('indexes every event in small ranges', async function () {
+    const store = new JsonlEventStore(storeDir)
+    const found = await indexSaleEvents(tieredSale, store, {
+      fromBlock: deployBlock,
+      maxBlockRange: 2,
+    })
+
+    const events = store.readEvents()
+    expect(found).to.equal(4)
+    expect(events.map((e) => e.event)).to.deep.equal([
+      'TierUpdated',
+      'PromoCodeAdded',
+      'PurchasedInTier',
+      'PurchasedInTier',
+    ])
+    expect(events[2].args).to.deep.equal({
+      buyer: user.address,
+      tierId,
+      amount: '2',
+      promoCode,
+    })
+    expect(store.getCheckpoint()?.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+  })
+
+  it('resumes from the checkpoint without duplicates', async function () {
+    const head = await ethers.provider.getBlockNumber()
+    await indexSaleEvents(tieredSale, new JsonlEventStore(storeDir), {
+      fromBlock: deployBlock,
+      toBlock: head - 1,
+    })
+    expect(new JsonlEventStore(storeDir).readEvents()).to.have.length(3)
+
+    // a new store on the same directory picks up after the checkpoint
+    const store = new JsonlEventStore(storeDir)
+    const found = await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock })
+    expect(found).to.equal(1)
+    expect(store.readEvents()).to.have.length(4)
+  })
+
+  it('stays behind the head by the confirmation depth', async function () {
+    const store = new JsonlEventStore(storeDir)
+    await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock, confirmations: 1 })
+    expect(store.readEvents()).to.have.length(3)
+
+    await mineNext()
+    await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock, confirmations: 1 })
+    expect(store.readEvents()).to.have.length(4)
+  })
+
+  it('shrinks the block range when the RPC refuses it', async function () {
+    // provider that rejects getLogs over more than 2 blocks
+    const limited = Object.create(ethers.provider)
+    let calls = 0
+    limited.getLogs = async (filter: { fromBlock: number; toBlock: number }) => {
+      calls++
+      if (filter.toBlock - filter.fromBlock + 1 > 2) {
+        throw new Error('query exceeds max block range 2')
+      }
+      return ethers.provider.getLogs(filter)
+    }
+
+    const store = new JsonlEventStore(storeDir)
+    const found = await indexSaleEvents(tieredSale.connect(limited), store, {
+      fromBlock: deployBlock,
+      maxBlockRange: 100,
+    })
+    expect(found).to.equal(4)
+    expect(calls).to.be.greaterThan(1)
+  })
+
+  it('refuses a store of another sale', async function () {
+    const store = new JsonlEventStore(storeDir)
+    await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock })
+
+    const other = tieredSale.attach(user.address)
+    let error: Error | undefined
+    try {
+      await indexSaleEvents(other, store, { fromBlock: deployBlock })
+    } catch (e) {
+      error = e as Error
+    }
+    expect(error?.message).to.contain('belongs to sale')
+  })
+
+  it('drops events past the checkpoint left by an interrupted run', async function () {
+    const store = new JsonlEventStore(storeDir)
+    await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock })
+    const events = store.readEvents()
+
+    // simulate a crash between writing events and moving the checkpoint
+    fs.appendFileSync(
+      path.join(storeDir, 'events.jsonl'),
+      JSON.stringify({ ...events[3], blockNumber: events[3].blockNumber + 1 }) + '\n'
+    )
+    expect(new JsonlEventStore(storeDir).readEvents()).to.deep.equal(events)
+  })
+
+  it('drops a half written last line', async function () {
+    const store = new JsonlEventStore(storeDir)
+    await indexSaleEvents(tieredSale, store, { fromBlock: deployBlock })
+    const events = store.readEvents()
+
+    // simulate a crash in the middle of appending a line
+    const file = path.join(storeDir, 'events.jsonl')
+    const line = JSON.stringify({ ...events[3], blockNumber: events[3].blockNumber + 1 })
+    fs.appendFileSync(file, line.slice(0, 40))
+
+    expect(new JsonlEventStore(storeDir).readEvents()).to.deep.equal(events)
+    // rewritten, so the next append starts on a line of its own
+    expect(fs.readFileSync(file, 'utf8').endsWith('}\n')).to.equal(true)
+  })
+})
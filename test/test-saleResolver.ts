@@ -0,0 +1,249 @@
+import hre, { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { Contract } from 'ethers'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { EIP1193Provider, HardhatRuntimeEnvironment } from 'hardhat/types'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { OPERATOR_ROLE } from '../scripts/lib/saleRoles'
+import { sendOrSimulate, startDryRun } from '../tasks/lib/dryRun'
+import { resolveSale, resolveSigner } from '../tasks/lib/sale'
+import { getBlockTime } from './helpers'
+
+describe('Sale resolver', function () {
+  let deployer: SignerWithAddress, operator: SignerWithAddress
+  let paymentToken: Contract
+  let saleToken: Contract
+  let fixedSale: Contract, tieredSale: Contract
+
+  const failure = async (promise: Promise<unknown>): Promise<string> => {
+    try {
+      await promise
+    } catch (e) {
+      return (e as Error).message
+    }
+    return ''
+  }
+
+  // serves `provider` over JSON-RPC, for a fork of the in-process network
+  const serve = (provider: EIP1193Provider): http.Server =>
+    http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', async () => {
+        const answer = async (call: { id: number; method: string; params?: unknown[] }) => {
+          try {
+            const result = await provider.request({
+              method: call.method,
+              params: call.params,
+            })
+            return { jsonrpc: '2.0', id: call.id, result }
+          } catch (e) {
+            return {
+              jsonrpc: '2.0',
+              id: call.id,
+              error: { code: -32000, message: (e as Error).message },
+            }
+          }
+        }
+        const request = JSON.parse(body)
+        const reply = Array.isArray(request)
+          ? await Promise.all(request.map(answer))
+          : await answer(request)
+        res.setHeader('Content-Type', 'application/json')
+        res.setHeader('Connection', 'close')
+        res.end(JSON.stringify(reply))
+      })
+    })
+
+  before(async function () {
+    [deployer, operator] = await ethers.getSigners()
+
+    const Token = await ethers.getContractFactory('GenericToken')
+    paymentToken = await Token.deploy('Mock Token', 'MTKP', 18)
+    saleToken = await Token.deploy('Mock Token Sale', 'MTKS', 18)
+
+    const startTime = (await getBlockTime()) + 100
+    const FixedSaleFactory = await ethers.getContractFactory('IFFixedSale')
+    fixedSale = await FixedSaleFactory.deploy(
+      1,
+      deployer.address,
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 86400,
+      1000
+    )
+    const TieredSaleFactory = await ethers.getContractFactory('IFTieredSale')
+    tieredSale = await TieredSaleFactory.deploy(
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 86400
+    )
+  })
+
+  it('detects the sale type', async function () {
+    const fixed = await resolveSale(hre, fixedSale.address)
+    expect(fixed.type).to.equal('IFFixedSale')
+    expect(await fixed.contract.salePrice()).to.equal(1)
+
+    const tiered = await resolveSale(hre, tieredSale.address, {
+      expected: 'IFTieredSale',
+    })
+    expect(tiered.type).to.equal('IFTieredSale')
+    expect(await tiered.contract.getAllTierIds()).to.deep.equal([])
+  })
+
+  it('connects the chosen signer', async function () {
+    const byIndex = await resolveSale(hre, tieredSale.address, { signer: '1' })
+    expect(await byIndex.signer?.getAddress()).to.equal(operator.address)
+
+    const byAddress = await resolveSigner(hre, operator.address.toLowerCase())
+    expect(await byAddress.getAddress()).to.equal(operator.address)
+
+    const readOnly = await resolveSale(hre, tieredSale.address, { readOnly: true })
+    expect(readOnly.signer).to.be.undefined
+  })
+
+  it('refuses anything else before sending', async function () {
+    expect(
+      await failure(resolveSale(hre, fixedSale.address, { expected: 'IFTieredSale' }))
+    ).to.equal(`${fixedSale.address} is an IFFixedSale, expected an IFTieredSale`)
+    expect(await failure(resolveSale(hre, paymentToken.address))).to.equal(
+      `${paymentToken.address} is neither an IFFixedSale nor an IFTieredSale`
+    )
+    expect(await failure(resolveSale(hre, ethers.constants.AddressZero))).to.contain(
+      'No contract at'
+    )
+    expect(await failure(resolveSigner(hre, '100'))).to.contain('out of range')
+    expect(
+      await failure(resolveSigner(hre, ethers.Wallet.createRandom().address))
+    ).to.contain('is not an account of')
+  })
+
+  it('resolves a Safe by address for a batch', async function () {
+    const safe = ethers.Wallet.createRandom().address
+    const { contract, signer } = await resolveSale(hre, fixedSale.address, {
+      signer: safe,
+      safeBatch: true,
+    })
+    expect(await signer?.getAddress()).to.equal(safe)
+    expect(await contract.salePrice()).to.equal(1)
+    expect(
+      await failure(
+        resolveSale(hre, fixedSale.address, { dryRun: true, safeBatch: true })
+      )
+    ).to.contain('cannot be combined')
+    expect(
+      await failure(resolveSale(hre, fixedSale.address, { safeBatch: true }))
+    ).to.contain('--safe-batch needs --signer <Safe address>')
+    expect(
+      await failure(resolveSale(hre, fixedSale.address, { signer: '0', safeBatch: true }))
+    ).to.contain('--safe-batch needs --signer <Safe address>')
+  })
+
+  it('funds a fixed sale with the given sale token', async function () {
+    expect(
+      await failure(hre.run('sale:fund', { sale: fixedSale.address, amount: '10' }))
+    ).to.contain('--sale-token is required')
+
+    await hre.run('sale:fund', {
+      sale: fixedSale.address,
+      amount: '10',
+      saleToken: saleToken.address,
+    })
+    expect(await fixedSale.saleAmount()).to.equal(10)
+    expect(await saleToken.balanceOf(fixedSale.address)).to.equal(10)
+  })
+
+  it('dry runs on a fork of another network', async function () {
+    const server = serve(hre.network.provider)
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    try {
+      const remote = {
+        ...hre,
+        network: {
+          ...hre.network,
+          name: 'remote',
+          config: { ...hre.network.config, url: `http://127.0.0.1:${port}` },
+        },
+      } as HardhatRuntimeEnvironment
+      const blockNumber = await ethers.provider.getBlockNumber()
+
+      const dryRun = await startDryRun(remote, deployer.address)
+      const sale = tieredSale.connect(dryRun.signer)
+      await sendOrSimulate(sale, dryRun, async () => {
+        await (await sale.setCasher(operator.address)).wait()
+        expect(await sale.casher()).to.equal(operator.address)
+      })
+      expect(await tieredSale.casher()).to.not.equal(operator.address)
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('ends the dry run when a check fails before sending', async function () {
+    const stranger = ethers.Wallet.createRandom().address
+    expect(
+      await failure(
+        hre.run('tieredSale:halt', {
+          sale: tieredSale.address,
+          signer: stranger,
+          dryRun: true,
+        })
+      )
+    ).to.contain('holds neither OPERATOR_ROLE nor DEFAULT_ADMIN_ROLE')
+    // the gas it was funded with is reverted and it is no longer impersonated
+    expect(await ethers.provider.getBalance(stranger)).to.equal(0)
+    expect(
+      await hre.network.provider.request({
+        method: 'hardhat_stopImpersonatingAccount',
+        params: [stranger],
+      })
+    ).to.equal(false)
+  })
+
+  it('dry runs as any address and leaves no trace', async function () {
+    const multisig = ethers.Wallet.createRandom().address
+    await tieredSale.transferOwnership(multisig)
+
+    const { contract: sale, dryRun } = await resolveSale(
+      hre,
+      tieredSale.address,
+      { signer: multisig, dryRun: true }
+    )
+    expect(await dryRun?.signer.getAddress()).to.equal(multisig)
+    await sendOrSimulate(sale, dryRun, async () => {
+      await (await sale.setCasher(operator.address)).wait()
+      expect(await sale.casher()).to.equal(operator.address)
+    })
+    expect(await tieredSale.casher()).to.not.equal(operator.address)
+
+    const { contract: reverting, dryRun: again } = await resolveSale(
+      hre,
+      tieredSale.address,
+      { signer: '1', dryRun: true }
+    )
+    expect(
+      await failure(
+        sendOrSimulate(reverting, again, async () => {
+          await (await reverting.setCasher(operator.address)).wait()
+        })
+      )
+    ).to.contain('Dry run reverted')
+  })
+
+  it('halts as an owner that only holds DEFAULT_ADMIN_ROLE', async function () {
+    // the multisig of the previous test, transferOwnership gave it the admin role only
+    const owner: string = await tieredSale.owner()
+    expect(await tieredSale.hasRole(OPERATOR_ROLE, owner)).to.equal(false)
+    await hre.run('tieredSale:halt', {
+      sale: tieredSale.address,
+      signer: owner,
+      dryRun: true,
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { expect } from 'chai'
+import { IndexedEvent } from '../scripts/lib/saleIndexer'
+import {
+  DEFAULT_ADMIN_ROLE,
+  OPERATOR_ROLE,
+  replayRoleEvents,
+  roleDriftWarnings,
+} from '../scripts/lib/saleRoles'
+
+describe('Sale roles', function () {
+  const owner = '0x1111111111111111111111111111111111111111'
+  const other = '0x2222222222222222222222222222222222222222'
+
+  let logIndex = 0
+  const roleEvent = (event: string, role: string, account: string): IndexedEvent => ({
+    event,
+    blockNumber: 1,
+    blockHash: '0x',
+    transactionHash: '0x',
+    logIndex: logIndex++,
+    args: { role, account, sender: owner },
+  })
+
+  it('replays grants and revokes in order', function () {
+    const holders = replayRoleEvents([
+      roleEvent('RoleGranted', DEFAULT_ADMIN_ROLE, owner),
+      roleEvent('RoleGranted', OPERATOR_ROLE, owner),
+      roleEvent('RoleGranted', OPERATOR_ROLE, other),
+      roleEvent('RoleRevoked', OPERATOR_ROLE, owner),
+      // regranted after a revoke
+      roleEvent('RoleRevoked', OPERATOR_ROLE, other),
+      roleEvent('RoleGranted', OPERATOR_ROLE, other),
+    ])
+    expect(holders.get(DEFAULT_ADMIN_ROLE)).to.deep.equal([owner])
+    expect(holders.get(OPERATOR_ROLE)).to.deep.equal([other])
+  })
+
+  it('follows the admin role through transferOwnership', function () {
+    // transferOwnership revokes from the old owner before granting to the new one
+    const holders = replayRoleEvents([
+      roleEvent('RoleGranted', DEFAULT_ADMIN_ROLE, owner),
+      roleEvent('RoleRevoked', DEFAULT_ADMIN_ROLE, owner),
+      roleEvent('RoleGranted', DEFAULT_ADMIN_ROLE, other),
+    ])
+    expect(holders.get(DEFAULT_ADMIN_ROLE)).to.deep.equal([other])
+    expect(roleDriftWarnings(other, [other])).to.deep.equal([])
+  })
+
+  it('warns when owner and admins drift apart', function () {
+    expect(roleDriftWarnings(owner, [other])).to.deep.equal([
+      `Owner ${owner} does not hold DEFAULT_ADMIN_ROLE`,
+      `${other} holds DEFAULT_ADMIN_ROLE but is not the owner`,
+    ])
+    expect(roleDriftWarnings(owner.toUpperCase().replace('0X', '0x'), [owner])).to.deep.equal([])
+  })
+})
@@ -0,0 +1,64 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  exportStandardMerkleTree,
+  importStandardMerkleTree,
+  standardLeafHash,
+} from '../scripts/lib/standardMerkleTree'
+import { buildAllocationWhitelist } from '../scripts/lib/whitelist'
+
+const entries = [
+  { address: '0x1111111111111111111111111111111111111111', allocation: '5000000000000000000' },
+  { address: '0x2222222222222222222222222222222222222222', allocation: '2500000000000000000' },
+  { address: '0x3333333333333333333333333333333333333333', allocation: '7' },
+]
+
+describe('StandardMerkleTree compatibility', function () {
+  it('exports the same tree as @openzeppelin/merkle-tree', function () {
+    const dump = exportStandardMerkleTree(entries)
+    expect(dump.format).to.equal('standard-v1')
+    expect(dump.leafEncoding).to.deep.equal(['address', 'uint256'])
+    // root of StandardMerkleTree.of(values, ['address', 'uint256'])
+    expect(dump.tree[0]).to.equal('0xe264190c3e22d981e46853866509a7576d5037da794a48ed577d392cc9a9b415')
+    dump.values.forEach(({ value, treeIndex }) => {
+      expect(dump.tree[treeIndex]).to.equal(standardLeafHash(['address', 'uint256'], value))
+    })
+  })
+
+  it('round trips entries but not roots', function () {
+    const dump = exportStandardMerkleTree(entries)
+    const imported = importStandardMerkleTree(dump)
+    expect(imported).to.deep.equal(entries)
+    expect(buildAllocationWhitelist(imported).root).to.not.equal(dump.tree[0])
+  })
+
+  it('needs a default allocation for address-only dumps', function () {
+    const value = [entries[0].address]
+    const dump = {
+      format: 'standard-v1',
+      tree: [standardLeafHash(['address'], value)],
+      values: [{ value, treeIndex: 0 }],
+      leafEncoding: ['address'],
+    }
+    expect(() => importStandardMerkleTree(dump)).to.throw('default allocation is required')
+    expect(importStandardMerkleTree(dump, 10)).to.deep.equal([{ address: entries[0].address, allocation: 10 }])
+  })
+
+  it('rejects encodings and formats that cannot be mapped', function () {
+    const dump = exportStandardMerkleTree(entries)
+    expect(() => importStandardMerkleTree({ ...dump, leafEncoding: ['uint256', 'address'] }))
+      .to.throw('cannot be mapped')
+    expect(() => importStandardMerkleTree({ ...dump, format: 'simple-v1' }))
+      .to.throw('Unsupported tree format')
+  })
+
+  it('rejects tampered dumps', function () {
+    const dump = exportStandardMerkleTree(entries)
+    const values = dump.values.map((v) => ({ ...v }))
+    values[0] = { ...values[0], value: [entries[0].address, '1'] }
+    expect(() => importStandardMerkleTree({ ...dump, values })).to.throw('does not match leaf')
+    const tree = [...dump.tree]
+    tree[0] = ethers.constants.HashZero
+    expect(() => importStandardMerkleTree({ ...dump, tree })).to.throw('does not match its children')
+  })
+})
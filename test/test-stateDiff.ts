@@ -0,0 +1,40 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import {
+  diffSnapshots,
+  formatStateDiff,
+  formatValue,
+} from '../scripts/lib/stateDiff'
+
+describe('State diff', function () {
+  it('formats view results', function () {
+    expect(formatValue(BigNumber.from('1000000000000000000000'))).to.equal(
+      '1000000000000000000000'
+    )
+    expect(formatValue([BigNumber.from(1), [BigNumber.from(2), true]])).to.equal(
+      '["1",["2",true]]'
+    )
+    expect(formatValue(false)).to.equal('false')
+    expect(formatValue('0xabc')).to.equal('0xabc')
+  })
+
+  it('lists changed, added and removed keys', function () {
+    const before = { saleAmount: '0', casher: '0x1', 'tiers(a).price': '5' }
+    const after = { saleAmount: '100', casher: '0x1', 'tiers(b).price': '7' }
+    expect(diffSnapshots(before, after)).to.deep.equal([
+      { key: 'saleAmount', before: '0', after: '100' },
+      { key: 'tiers(b).price', before: undefined, after: '7' },
+      { key: 'tiers(a).price', before: '5' },
+    ])
+    expect(formatStateDiff(diffSnapshots(before, after))).to.equal(
+      [
+        'saleAmount: 0 -> 100',
+        'tiers(b).price: (none) -> 7',
+        'tiers(a).price: 5 -> (none)',
+      ].join('\n')
+    )
+    expect(formatStateDiff(diffSnapshots(before, before))).to.equal(
+      'No state changes'
+    )
+  })
+})
@@ -0,0 +1,65 @@
+import { expect } from 'chai'
+import {
+  address,
+  amount,
+  choice,
+  interval,
+  list,
+  timestamp,
+  uint,
+} from '../tasks/lib/types'
+
+describe('Task argument types', function () {
+  it('parses addresses to their checksum', function () {
+    expect(address.parse('sale', '0x5fbdb2315678afecb367f032d93f642f64180aa3')).to.equal(
+      '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+    )
+    expect(() => address.parse('sale', '0x123')).to.throw(
+      'Invalid value 0x123 for argument sale of type address'
+    )
+    // mixed case with a wrong checksum
+    expect(() =>
+      address.parse('sale', '0x5fbDB2315678afecb367f032d93F642f64180aa3')
+    ).to.throw('of type address')
+  })
+
+  it('parses amounts and uints', function () {
+    expect(amount.parse('amount', '1000000000000000000000')).to.equal('1000000000000000000000')
+    expect(() => amount.parse('amount', '1e18')).to.throw('of type amount')
+    expect(() => amount.parse('amount', '-1')).to.throw('of type amount')
+    expect(() => amount.parse('amount', '2'.repeat(80))).to.throw('of type amount')
+
+    expect(uint.parse('fromBlock', '123')).to.equal(123)
+    expect(() => uint.parse('fromBlock', '')).to.throw('of type uint')
+    expect(() => uint.parse('fromBlock', '1.5')).to.throw('of type uint')
+    expect(() => uint.parse('fromBlock', '9'.repeat(20))).to.throw('of type uint')
+  })
+
+  it('parses timestamps and dates', function () {
+    expect(timestamp.parse('endTime', '1735689600')).to.equal(1735689600)
+    expect(timestamp.parse('endTime', '2025-01-01T00:00:00Z')).to.equal(1735689600)
+    expect(() => timestamp.parse('endTime', 'next year')).to.throw(
+      'Invalid value next year for argument endTime of type timestamp'
+    )
+  })
+
+  it('parses intervals', function () {
+    expect(interval.parse('step', '3m')).to.deep.equal({ count: 3, unit: 'month' })
+    expect(interval.parse('cliff', '30d')).to.deep.equal({ count: 30, unit: 'day' })
+    expect(() => interval.parse('step', '2w')).to.throw(
+      'Invalid value 2w for argument step of type interval'
+    )
+  })
+
+  it('parses lists and choices', function () {
+    expect(list.parse('tiers', 'tier1, tier2,,')).to.deep.equal(['tier1', 'tier2'])
+    expect(list.parse('tiers', '')).to.deep.equal([])
+
+    const policy = choice(['sum', 'max', 'error'])
+    expect(policy.parse('duplicates', 'max')).to.equal('max')
+    expect(() => policy.parse('duplicates', 'min')).to.throw(
+      'Invalid value min for argument duplicates of type sum|max|error'
+    )
+    expect(() => policy.validate?.('duplicates', 'min')).to.throw('of type sum|max|error')
+  })
+})
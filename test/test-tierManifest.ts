@@ -0,0 +1,105 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { TierConfig } from '../scripts/lib/tieredSaleConfig'
+import { planTiers, readTierManifest } from '../scripts/lib/tierManifest'
+
+describe('Tier manifest plan', function () {
+  const now = 1_000_000
+
+  const onChainTier: TierConfig = {
+    tierId: 'tier1',
+    price: ethers.utils.parseEther('1'),
+    maxTotalPurchasable: 1000,
+    maxAllocationPerWallet: 10,
+    bonusPercentage: 5,
+    whitelistRootHash: ethers.constants.HashZero,
+    isHalt: false,
+    allowPromoCode: true,
+    allowWalletPromoCode: true,
+    startTime: now + 3600,
+    endTime: now + 86400,
+  }
+
+  it('reports no calls when the manifest matches the chain', function () {
+    const [plan] = planTiers(
+      [{ ...onChainTier, price: '1000000000000000000' }],
+      [onChainTier],
+      now
+    )
+    expect(plan.action).to.equal('unchanged')
+    expect(plan.calls).to.be.empty
+  })
+
+  it('uses update functions instead of setTier where possible', function () {
+    const [plan] = planTiers(
+      [{ ...onChainTier, maxTotalPurchasable: 2000, isHalt: true }],
+      [onChainTier],
+      now
+    )
+    expect(plan.action).to.equal('update')
+    expect(plan.calls.map((c) => c.method)).to.deep.equal([
+      'updateMaxTotalPurchasable',
+      'updateIsHalt',
+    ])
+  })
+
+  it('orders time updates so the window stays valid', function () {
+    const later = { ...onChainTier, startTime: now + 100000, endTime: now + 200000 }
+    expect(planTiers([later], [onChainTier], now)[0].calls.map((c) => c.method))
+      .to.deep.equal(['updateTierEndTime', 'updateTierStartTime'])
+
+    const earlier = { ...onChainTier, startTime: now + 60, endTime: now + 120 }
+    expect(planTiers([earlier], [onChainTier], now)[0].calls.map((c) => c.method))
+      .to.deep.equal(['updateTierStartTime', 'updateTierEndTime'])
+  })
+
+  it('falls back to setTier for new tiers and price changes', function () {
+    const plans = planTiers(
+      [{ ...onChainTier, price: 5 }, { ...onChainTier, tierId: 'tier2' }],
+      [onChainTier],
+      now
+    )
+    expect(plans[0].calls.map((c) => c.method)).to.deep.equal(['setTier'])
+    expect(plans[1].action).to.equal('create')
+    expect(plans[1].calls.map((c) => c.method)).to.deep.equal(['setTier'])
+  })
+
+  it('refuses price changes once the tier has started', function () {
+    const [plan] = planTiers(
+      [{ ...onChainTier, price: 5 }],
+      [onChainTier],
+      onChainTier.startTime + 1
+    )
+    expect(plan.errors).to.not.be.empty
+  })
+
+  it('reports on-chain tiers missing from the manifest', function () {
+    const plans = planTiers([], [onChainTier], now)
+    expect(plans[0].action).to.equal('unmanaged')
+  })
+
+  it('reads JSON and YAML manifests the same way', function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tier-manifest-'))
+    const write = (name: string, content: string) => {
+      fs.writeFileSync(path.join(dir, name), content)
+      return path.join(dir, name)
+    }
+    try {
+      const tier = { tierId: 'tier1', price: '1000', startTime: now + 60, endTime: now + 3600 }
+      const fromJson = readTierManifest(write('tiers.json', JSON.stringify([tier])))
+      const fromYaml = readTierManifest(
+        write(
+          'sale.yml',
+          `tiers:\n  - tierId: tier1\n    price: '1000'\n    startTime: ${now + 60}\n    endTime: ${now + 3600}\n`
+        )
+      )
+      expect(fromYaml).to.deep.equal(fromJson)
+      expect(() => readTierManifest(write('tiers.toml', ''))).to.throw('Unsupported tier manifest')
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
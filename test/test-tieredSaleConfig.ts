@@ -0,0 +1,86 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  readTieredSaleConfig,
+  validatePromoCode,
+  validateTier,
+  validateTieredSaleConfig,
+} from '../scripts/lib/tieredSaleConfig'
+
+describe('Tiered sale config', function () {
+  const now = 1_700_000_000
+  const address = (i: number) =>
+    ethers.utils.getAddress(ethers.utils.hexDataSlice(ethers.utils.id(`a${i}`), 12))
+
+  let dir: string
+  const write = (config: unknown): string => {
+    const file = path.join(dir, 'sale.json')
+    fs.writeFileSync(file, JSON.stringify(config))
+    return file
+  }
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sale-config-'))
+  })
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('accepts a complete config', function () {
+    const config = readTieredSaleConfig(
+      write({
+        paymentToken: address(1),
+        saleToken: address(2),
+        startTime: now + 60,
+        endTime: now + 3600,
+        tiers: [{ tierId: 't1', price: '1000', startTime: now + 60, endTime: now + 3600 }],
+        promoCodes: [
+          {
+            code: 'KOL',
+            discountPercentage: 5,
+            promoCodeOwnerAddress: address(3),
+            masterOwnerAddress: address(4),
+          },
+        ],
+      })
+    )
+    expect(() => validateTieredSaleConfig(config, now)).to.not.throw()
+  })
+
+  it('reports missing tier fields', function () {
+    const tier = readTieredSaleConfig(write({ tiers: [{ tierId: 't1' }] })).tiers[0]
+    expect(validateTier(tier, now)).to.deep.equal([
+      'Invalid price',
+      'Invalid start time',
+      'Invalid end time',
+    ])
+  })
+
+  it('reports missing promo code fields', function () {
+    const promo = readTieredSaleConfig(
+      write({ promoCodes: [{ masterOwnerAddress: address(4) }] })
+    ).promoCodes[0]
+    expect(validatePromoCode(promo)).to.deep.equal([
+      'Invalid promo code',
+      'Invalid discount percentage',
+      'Invalid promo code owner address',
+    ])
+  })
+
+  it('lists every problem of a config instead of failing on the first', function () {
+    const config = readTieredSaleConfig(
+      write({ tiers: [{}], promoCodes: [{}], operators: 'not a list' })
+    )
+    expect(() => validateTieredSaleConfig(config, now))
+      .to.throw('Invalid tiered sale config')
+      .with.property('message')
+      .that.contains('Invalid start timestamp')
+      .and.contains('operators must be a list')
+      .and.contains('Tier #1: Invalid tier id')
+      .and.contains('Promo code #1: Invalid promo code owner address')
+  })
+})
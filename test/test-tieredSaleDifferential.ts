@@ -0,0 +1,313 @@
+import { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { BigNumber, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { TieredSaleModel } from '../scripts/lib/tieredSaleModel'
+import { QuoteRates } from '../scripts/lib/tieredSaleQuote'
+import { getBlockTime, mineTimeDelta } from './helpers'
+
+// Randomized differential test: the same scenario runs on a fresh IFTieredSale
+// and in TieredSaleModel, then reverts and accounting are compared. Failures
+// are shrunk to a minimal scenario. DIFF_SEED sets the first seed (1 by
+// default, so CI runs the same scenarios every time), DIFF_RUNS sets how many
+// scenarios are tried.
+
+type ScenarioTier = {
+  tierId: string
+  price: string
+  maxTotalPurchasable: number
+  maxAllocationPerWallet: number
+  bonusPercentage: number
+  allowPromoCode: boolean
+  allowWalletPromoCode: boolean
+}
+
+type ScenarioPromoCode = {
+  code: string
+  discountPercentage: number
+  owner: number // signer index
+  master: number // signer index
+  baseOwnerPercentageOverride: number
+  masterOwnerPercentageOverride: number
+}
+
+type ScenarioPurchase = {
+  buyer: number // signer index
+  tierId: string
+  amount: number
+  named?: string // promo code
+  wallet?: number // signer index of the wallet promo code
+}
+
+type Scenario = {
+  rates: QuoteRates
+  tiers: ScenarioTier[]
+  promoCodes: ScenarioPromoCode[]
+  purchases: ScenarioPurchase[]
+}
+
+const ACCOUNTS = 6 // signers 1..ACCOUNTS buy and own codes, 0 deploys
+const MAX_SHRINK_RUNS = 100
+
+// mulberry32, small seedable PRNG
+const makeRandom = (seed: number) => {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+  const chance = (p: number) => next() < p
+  const pick = <T>(items: T[]): T => items[int(0, items.length - 1)]
+  return { int, chance, pick }
+}
+
+const generateScenario = (seed: number): Scenario => {
+  const r = makeRandom(seed)
+
+  const tiers = Array.from({ length: r.int(1, 3) }, (_, i) => ({
+    tierId: `tier${i}`,
+    // odd prices make the integer rounding visible
+    price: BigNumber.from(r.int(1, 1000000)).mul(r.pick([1, 1000003, 10 ** 12])).toString(),
+    maxTotalPurchasable: r.chance(0.5) ? 0 : r.int(1, 20),
+    maxAllocationPerWallet: r.chance(0.5) ? 0 : r.int(1, 8),
+    bonusPercentage: r.int(0, 5),
+    allowPromoCode: r.chance(0.8),
+    allowWalletPromoCode: r.chance(0.8),
+  }))
+
+  const promoCodes = Array.from({ length: r.int(0, 4) }, (_, i) => {
+    const owner = r.int(1, ACCOUNTS)
+    return {
+      code: `CODE${i}`,
+      discountPercentage: r.chance(0.1) ? 0 : r.int(1, 100),
+      owner,
+      master: (owner % ACCOUNTS) + 1,
+      baseOwnerPercentageOverride: r.chance(0.5) ? 0 : r.int(1, 10),
+      masterOwnerPercentageOverride: r.chance(0.5) ? 0 : r.int(1, 2),
+    }
+  })
+
+  const purchases = Array.from({ length: r.int(1, 15) }, () => {
+    const purchase: ScenarioPurchase = {
+      buyer: r.int(1, ACCOUNTS),
+      tierId: r.pick(tiers).tierId,
+      amount: r.int(0, 6),
+    }
+    const kind = r.int(0, 9)
+    if (kind >= 4 && kind < 8) {
+      purchase.named = promoCodes.length > 0 && r.chance(0.9) ? r.pick(promoCodes).code : 'UNKNOWN'
+    } else if (kind >= 8) {
+      purchase.wallet = r.int(1, ACCOUNTS)
+    }
+    return purchase
+  })
+
+  return {
+    rates: {
+      baseOwnerPercentage: r.int(0, 10),
+      masterOwnerPercentage: r.int(0, 2),
+      addressPromoCodePercentage: r.int(0, 10),
+      addressPromoCodeDiscountPercentage: r.int(0, 100),
+    },
+    tiers,
+    promoCodes,
+    purchases,
+  }
+}
+
+// smaller variants of a scenario, most reducing first
+const shrinkCandidates = (s: Scenario): Scenario[] => {
+  const candidates: Scenario[] = []
+  s.purchases.forEach((_, i) => {
+    candidates.push({ ...s, purchases: s.purchases.filter((__, j) => j !== i) })
+  })
+  s.promoCodes.forEach((_, i) => {
+    candidates.push({ ...s, promoCodes: s.promoCodes.filter((__, j) => j !== i) })
+  })
+  s.tiers.forEach((tier, i) => {
+    if (!s.purchases.some((p) => p.tierId === tier.tierId)) {
+      candidates.push({ ...s, tiers: s.tiers.filter((__, j) => j !== i) })
+    }
+  })
+  s.purchases.forEach((p, i) => {
+    if (p.amount > 1) {
+      const purchases = s.purchases.slice()
+      purchases[i] = { ...p, amount: 1 }
+      candidates.push({ ...s, purchases })
+    }
+  })
+  s.tiers.forEach((tier, i) => {
+    if (tier.price !== '1') {
+      const tiers = s.tiers.slice()
+      tiers[i] = { ...tier, price: BigNumber.from(tier.price).div(2).add(1).toString() }
+      candidates.push({ ...s, tiers })
+    }
+  })
+  return candidates
+}
+
+describe('TieredSale differential test', function () {
+  this.timeout(0)
+
+  let signers: SignerWithAddress[]
+  let paymentToken: Contract
+  let saleToken: Contract
+
+  before(async function () {
+    signers = await ethers.getSigners()
+    const Token = await ethers.getContractFactory('GenericToken')
+    paymentToken = await Token.deploy('Mock Token', 'MTKP', 18)
+    saleToken = await Token.deploy('Mock Token Sale', 'MTKS', 18)
+    for (let i = 1; i <= ACCOUNTS; i++) {
+      await paymentToken.mint(signers[i].address, ethers.utils.parseEther('1000000000'))
+    }
+  })
+
+  // runs a scenario on chain and in the model, returns the differences found
+  const runScenario = async (s: Scenario): Promise<string[]> => {
+    const address = (i: number) => signers[i].address
+    const diffs: string[] = []
+
+    const startTime = (await getBlockTime()) + 100
+    const TieredSaleFactory = await ethers.getContractFactory('IFTieredSale')
+    const sale = await TieredSaleFactory.deploy(
+      paymentToken.address,
+      saleToken.address,
+      startTime,
+      startTime + 1000000
+    )
+    await sale.updateRewards(s.rates.baseOwnerPercentage, s.rates.masterOwnerPercentage)
+    await sale.updateAddressRewards(s.rates.addressPromoCodePercentage)
+    await sale.updateAddressDiscount(s.rates.addressPromoCodeDiscountPercentage)
+
+    const model = new TieredSaleModel(s.rates)
+    for (const tier of s.tiers) {
+      await sale.setTier(
+        tier.tierId, tier.price, tier.maxTotalPurchasable, tier.maxAllocationPerWallet,
+        ethers.constants.HashZero, tier.bonusPercentage, false, tier.allowPromoCode,
+        tier.allowWalletPromoCode, startTime, startTime + 1000000
+      )
+      model.setTier(tier.tierId, { ...tier })
+    }
+    for (const promo of s.promoCodes) {
+      await sale.addPromoCode(
+        promo.code, promo.discountPercentage, address(promo.owner), address(promo.master),
+        promo.baseOwnerPercentageOverride, promo.masterOwnerPercentageOverride
+      )
+      model.addPromoCode(promo.code, {
+        ...promo,
+        promoCodeOwnerAddress: address(promo.owner),
+        masterOwnerAddress: address(promo.master),
+      })
+    }
+    for (let i = 1; i <= ACCOUNTS; i++) {
+      await paymentToken.connect(signers[i]).approve(sale.address, ethers.constants.MaxUint256)
+    }
+    await mineTimeDelta(100)
+
+    for (let i = 0; i < s.purchases.length; i++) {
+      const p = s.purchases[i]
+      let expected: string | undefined
+      try {
+        if (p.wallet !== undefined) {
+          model.purchaseWithWalletCode(address(p.buyer), p.tierId, p.amount, address(p.wallet))
+        } else {
+          model.purchase(address(p.buyer), p.tierId, p.amount, p.named)
+        }
+      } catch (e) {
+        expected = (e as Error).message
+      }
+
+      let actual: string | undefined
+      try {
+        const buyer = sale.connect(signers[p.buyer])
+        const tx =
+          p.wallet !== undefined
+            ? await buyer.whitelistedPurchaseInTierWithWalletCode(p.tierId, p.amount, [], address(p.wallet), 0)
+            : p.named !== undefined
+            ? await buyer.whitelistedPurchaseInTierWithCode(p.tierId, p.amount, [], p.named, 0)
+            : await buyer.whitelistedPurchaseInTier(p.tierId, p.amount, [], 0)
+        await tx.wait()
+      } catch (e) {
+        actual = (e as Error).message
+      }
+
+      if (expected === undefined && actual !== undefined) {
+        diffs.push(`purchase ${i}: contract reverted (${actual}), model accepted`)
+      } else if (expected !== undefined && actual === undefined) {
+        diffs.push(`purchase ${i}: model rejected (${expected}), contract accepted`)
+      } else if (expected !== undefined && actual !== undefined && !actual.includes(expected)) {
+        diffs.push(`purchase ${i}: model rejected (${expected}), contract reverted (${actual})`)
+      }
+    }
+
+    const compare = (label: string, onChain: BigNumber, modelled: BigNumber) => {
+      if (!onChain.eq(modelled)) diffs.push(`${label}: contract ${onChain}, model ${modelled}`)
+    }
+    const zero = BigNumber.from(0)
+    compare('totalPaymentReceived', await sale.totalPaymentReceived(), model.totalPaymentReceived)
+    compare('totalRewardsUnclaimed', await sale.totalRewardsUnclaimed(), model.totalRewardsUnclaimed)
+    for (const tier of s.tiers) {
+      compare(
+        `saleTokenPurchasedByTier(${tier.tierId})`,
+        await sale.saleTokenPurchasedByTier(tier.tierId),
+        model.saleTokenPurchasedByTier.get(tier.tierId) || zero
+      )
+    }
+    for (const [code, promo] of Array.from(model.promoCodes.entries())) {
+      const onChain = await sale.promoCodes(code)
+      compare(`promoCodeOwnerEarnings(${code})`, onChain.promoCodeOwnerEarnings, promo.promoCodeOwnerEarnings)
+      compare(`masterOwnerEarnings(${code})`, onChain.masterOwnerEarnings, promo.masterOwnerEarnings)
+      compare(`totalPurchased(${code})`, onChain.totalPurchased, promo.totalPurchased)
+      compare(
+        `codePurchaseAmount(${code})`,
+        await sale.codePurchaseAmount(code),
+        model.codePurchaseAmount.get(code) || zero
+      )
+    }
+    return diffs
+  }
+
+  const shrink = async (failing: Scenario): Promise<{ scenario: Scenario; diffs: string[] }> => {
+    let scenario = failing
+    let diffs = await runScenario(scenario)
+    let runs = 0
+    let progress = true
+    while (progress && runs < MAX_SHRINK_RUNS) {
+      progress = false
+      for (const candidate of shrinkCandidates(scenario)) {
+        if (runs++ >= MAX_SHRINK_RUNS) break
+        const candidateDiffs = await runScenario(candidate)
+        if (candidateDiffs.length > 0) {
+          scenario = candidate
+          diffs = candidateDiffs
+          progress = true
+          break
+        }
+      }
+    }
+    return { scenario, diffs }
+  }
+
+  it('matches the model on random scenarios', async function () {
+    const seed = parseInt(process.env.DIFF_SEED || '1')
+    const runs = parseInt(process.env.DIFF_RUNS || '10')
+
+    for (let i = 0; i < runs; i++) {
+      const scenario = generateScenario(seed + i)
+      const diffs = await runScenario(scenario)
+      if (diffs.length > 0) {
+        const minimal = await shrink(scenario)
+        expect.fail(
+          `Scenario ${seed + i} (DIFF_SEED=${seed + i} DIFF_RUNS=1) differs:\n  ` +
+            minimal.diffs.join('\n  ') +
+            `\nMinimal scenario:\n${JSON.stringify(minimal.scenario, null, 2)}`
+        )
+      }
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { QuoteRates, quotePurchase } from '../scripts/lib/tieredSaleQuote'
+
+describe('Tiered sale quote', function () {
+  // contract defaults
+  const rates: QuoteRates = {
+    baseOwnerPercentage: 8,
+    masterOwnerPercentage: 2,
+    addressPromoCodePercentage: 8,
+    addressPromoCodeDiscountPercentage: 5,
+  }
+  const tier = { price: ethers.utils.parseEther('1'), bonusPercentage: 5 }
+
+  it('charges the full price without a promo code', function () {
+    const quote = quotePurchase(tier, 3, rates)
+    expect(quote.unitPrice.toString()).to.equal(ethers.utils.parseEther('1').toString())
+    expect(quote.totalCost.toString()).to.equal(ethers.utils.parseEther('3').toString())
+    expect(quote.totalRewards.isZero()).to.be.true
+  })
+
+  it('applies the default percentages and the tier bonus to named codes', function () {
+    const quote = quotePurchase(tier, 2, rates, {
+      kind: 'named',
+      discountPercentage: 20,
+      baseOwnerPercentageOverride: 0,
+      masterOwnerPercentageOverride: 0,
+    })
+    const totalCost = ethers.utils.parseEther('1.6')
+    expect(quote.discountPercentage).to.equal(20)
+    expect(quote.totalCost.toString()).to.equal(totalCost.toString())
+    expect(quote.ownerReward.toString()).to.equal(totalCost.mul(8).div(100).toString())
+    expect(quote.masterReward.toString()).to.equal(totalCost.mul(2).div(100).toString())
+    expect(quote.bonus.toString()).to.equal(totalCost.mul(5).div(100).toString())
+    expect(quote.totalRewards.toString()).to.equal(totalCost.mul(15).div(100).toString())
+  })
+
+  it('prefers non zero overrides', function () {
+    const quote = quotePurchase(tier, 1, rates, {
+      kind: 'named',
+      discountPercentage: 10,
+      baseOwnerPercentageOverride: 3,
+      masterOwnerPercentageOverride: 1,
+    })
+    const totalCost = ethers.utils.parseEther('0.9')
+    expect(quote.ownerReward.toString()).to.equal(totalCost.mul(3).div(100).toString())
+    expect(quote.masterReward.toString()).to.equal(totalCost.mul(1).div(100).toString())
+  })
+
+  it('gives wallet codes the address discount and reward only', function () {
+    const quote = quotePurchase(tier, 1, rates, { kind: 'wallet' })
+    const totalCost = ethers.utils.parseEther('0.95')
+    expect(quote.discountPercentage).to.equal(5)
+    expect(quote.totalCost.toString()).to.equal(totalCost.toString())
+    expect(quote.ownerReward.toString()).to.equal(totalCost.mul(8).div(100).toString())
+    expect(quote.masterReward.isZero()).to.be.true
+    expect(quote.bonus.isZero()).to.be.true
+  })
+
+  it('rounds the unit price down before multiplying by the quantity', function () {
+    // 999 * 67 / 100 = 669.33 -> 669, then 669 * 3
+    const quote = quotePurchase({ price: 999, bonusPercentage: 3 }, 3, rates, {
+      kind: 'named',
+      discountPercentage: 33,
+      baseOwnerPercentageOverride: 0,
+      masterOwnerPercentageOverride: 0,
+    })
+    expect(quote.unitPrice.toNumber()).to.equal(669)
+    expect(quote.totalCost.toNumber()).to.equal(2007)
+    // 2007 * 8 / 100 = 160.56, 2007 * 2 / 100 = 40.14, 2007 * 3 / 100 = 60.21
+    expect(quote.ownerReward.toNumber()).to.equal(160)
+    expect(quote.masterReward.toNumber()).to.equal(40)
+    expect(quote.bonus.toNumber()).to.equal(60)
+  })
+})
@@ -0,0 +1,95 @@
+import { expect } from 'chai'
+import { BigNumber, ethers } from 'ethers'
+import { TierConfig } from '../scripts/lib/tieredSaleConfig'
+import {
+  formatDuration,
+  formatSaleStatus,
+  tierPhase,
+  tierStatus,
+} from '../scripts/lib/tieredSaleStatus'
+
+describe('Tiered sale status', function () {
+  const now = 1_700_000_000
+  const eth = ethers.utils.parseEther
+
+  const tier = (
+    tierId: string,
+    isHalt: boolean,
+    startTime: number,
+    endTime: number,
+    maxTotalPurchasable: number
+  ): TierConfig => ({
+    tierId,
+    price: eth('1'),
+    maxTotalPurchasable,
+    maxAllocationPerWallet: 0,
+    bonusPercentage: 0,
+    whitelistRootHash: ethers.constants.HashZero,
+    isHalt,
+    allowPromoCode: false,
+    allowWalletPromoCode: false,
+    startTime,
+    endTime,
+  })
+
+  const upcoming = tier('early', false, now + 3600, now + 7200, 1000)
+  const active = tier('main', true, now - 3600, now + 90000, 1000)
+  const ended = tier('open', false, now - 7200, now - 3600, 0)
+
+  it('places a tier in its window, bounds included', function () {
+    const window = tier('t', false, now, now + 60, 0)
+    expect(tierPhase(window, now - 1)).to.equal('upcoming')
+    expect(tierPhase(window, now)).to.equal('active')
+    expect(tierPhase(window, now + 60)).to.equal('active')
+    expect(tierPhase(window, now + 61)).to.equal('ended')
+  })
+
+  it('counts the time to the start or the end', function () {
+    expect(tierStatus(upcoming, BigNumber.from(0), now).secondsLeft).to.equal(3600)
+    expect(tierStatus(active, BigNumber.from(0), now).secondsLeft).to.equal(90000)
+    expect(tierStatus(ended, BigNumber.from(0), now).secondsLeft).to.equal(0)
+  })
+
+  it('gives the percent sold, none without a limit', function () {
+    expect(tierStatus(active, BigNumber.from(255), now).soldPercentage).to.equal(25.5)
+    expect(tierStatus(active, BigNumber.from(1000), now).soldPercentage).to.equal(100)
+    expect(tierStatus(ended, BigNumber.from(42), now).soldPercentage).to.be.undefined
+  })
+
+  it('formats durations down to the minute', function () {
+    expect(formatDuration(0)).to.equal('-')
+    expect(formatDuration(59)).to.equal('0m')
+    expect(formatDuration(93780)).to.equal('1d 2h 3m')
+    expect(formatDuration(86400)).to.equal('1d 0m')
+  })
+
+  it('prints every tier and the totals', function () {
+    const status = {
+      blockNumber: 100,
+      timestamp: now,
+      tiers: [
+        tierStatus(upcoming, BigNumber.from(0), now),
+        tierStatus(active, BigNumber.from(255), now),
+        tierStatus(ended, BigNumber.from(42), now),
+      ],
+      totalPaymentReceived: eth('297'),
+      totalRewardsUnclaimed: eth('1.5'),
+      paymentTokenBalance: eth('295.5'),
+      paymentTokenSymbol: 'USDC',
+      paymentTokenDecimals: 18,
+      claimRewardsEnabled: false,
+    }
+    expect(formatSaleStatus(status).split('\n')).to.deep.equal([
+      'Block 100 at 2023-11-14T22:13:20.000Z',
+      '',
+      'early | price 1.0 USDC | sold 0 / 1000 (0%) | running | upcoming | starts in 1h 0m',
+      'main | price 1.0 USDC | sold 255 / 1000 (25.5%) | HALTED | active | ends in 1d 1h 0m',
+      'open | price 1.0 USDC | sold 42 / no limit | running | ended',
+      '',
+      'Total payment received: 297.0 USDC',
+      'Total rewards unclaimed: 1.5 USDC',
+      'Payment token balance: 295.5 USDC',
+      'Claim rewards enabled: false',
+    ])
+  })
+})
@@ -0,0 +1,147 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  addInterval,
+  buildCliffSchedule,
+  cliffPeriodArgs,
+  formatCliffSchedule,
+  formatUnlockCurve,
+  linearUnlockCurve,
+  parseInterval,
+  readCliffScheduleCsv,
+  TEN_YEARS,
+  validateCliffSchedule,
+  validateLinearVestingEnd,
+} from '../scripts/lib/vestingSchedule'
+
+describe('Vesting schedule', function () {
+  const utc = (date: string) => Date.parse(`${date}Z`) / 1000
+  const tge = utc('2024-01-31T12:00:00')
+  let dir: string
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-'))
+  })
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('steps by days or calendar months without drifting', function () {
+    const month = parseInterval('1m')
+    expect(addInterval(tge, parseInterval('10d'))).to.equal(tge + 10 * 86400)
+    expect(addInterval(tge, month)).to.equal(utc('2024-02-29T12:00:00'))
+    expect(addInterval(tge, month, 2)).to.equal(utc('2024-03-31T12:00:00'))
+    expect(addInterval(tge, month, 13)).to.equal(utc('2025-02-28T12:00:00'))
+    expect(() => parseInterval('1y')).to.throw('Invalid interval 1y')
+  })
+
+  it('builds tge, cliff and steps with the remainder on the last step', function () {
+    // 20% at TGE, 3-month cliff, then monthly for 12 months
+    const schedule = buildCliffSchedule({
+      tge,
+      tgePct: 20,
+      cliff: parseInterval('3m'),
+      step: parseInterval('1m'),
+      steps: 12,
+    })
+    expect(schedule).to.have.length(13)
+    expect(schedule[0]).to.deep.equal({ claimTime: tge, pct: 20 })
+    expect(schedule[1]).to.deep.equal({
+      claimTime: utc('2024-05-31T12:00:00'),
+      pct: 6,
+    })
+    expect(schedule[12]).to.deep.equal({
+      claimTime: utc('2025-04-30T12:00:00'),
+      pct: 14,
+    })
+    expect(validateCliffSchedule(schedule, tge - 1)).to.deep.equal([])
+
+    const [claimTimes, pct] = cliffPeriodArgs(schedule)
+    expect(claimTimes[0]).to.equal(tge)
+    expect(pct.reduce((a, b) => a + b, 0)).to.equal(100)
+    expect(formatCliffSchedule(schedule.slice(0, 2))).to.equal(
+      [
+        `1. 2024-01-31T12:00:00.000Z (${tge}) 20%, total 20%`,
+        `2. 2024-05-31T12:00:00.000Z (${schedule[1].claimTime}) 6%, total 26%`,
+      ].join('\n')
+    )
+  })
+
+  it('reports every setCliffPeriod rule a schedule breaks', function () {
+    expect(validateCliffSchedule([], tge)).to.deep.equal(['Schedule is empty'])
+    expect(
+      validateCliffSchedule(
+        [
+          { claimTime: tge, pct: 50 },
+          { claimTime: tge, pct: 40 },
+          { claimTime: tge + TEN_YEARS, pct: 5 },
+        ],
+        tge
+      )
+    ).to.deep.equal([
+      'Unlock 2: 2024-01-31T12:00:00.000Z is not after the previous unlock',
+      'First unlock 2024-01-31T12:00:00.000Z is not after withdrawTime 2024-01-31T12:00:00.000Z',
+      'Last unlock 2034-02-01T22:07:40.000Z is not within 10 years of withdrawTime',
+      'Percentages add up to 95, not 100',
+    ])
+
+    const many = buildCliffSchedule({
+      tge,
+      tgePct: 0,
+      cliff: parseInterval('0d'),
+      step: parseInterval('1d'),
+      steps: 101,
+    })
+    expect(validateCliffSchedule(many, tge - 1)).to.deep.equal([
+      '101 unlocks, setCliffPeriod takes at most 100',
+    ])
+  })
+
+  it('reads a time,percent table', function () {
+    const file = path.join(dir, 'schedule.csv')
+    fs.writeFileSync(
+      file,
+      ['time,percent', '2024-06-01T00:00:00Z,25', `${tge + 86400 * 200}, 75`].join('\n')
+    )
+    expect(readCliffScheduleCsv(file)).to.deep.equal([
+      { claimTime: utc('2024-06-01T00:00:00'), pct: 25 },
+      { claimTime: tge + 86400 * 200, pct: 75 },
+    ])
+
+    fs.writeFileSync(file, '1717200000,12.5\n')
+    expect(() => readCliffScheduleCsv(file)).to.throw('line 1: invalid percent 12.5')
+  })
+
+  it('checks a linear vesting end against withdrawTime', function () {
+    expect(validateLinearVestingEnd(tge + 1, tge)).to.deep.equal([])
+    expect(validateLinearVestingEnd(tge, tge)).to.deep.equal([
+      'End 2024-01-31T12:00:00.000Z is not after withdrawTime 2024-01-31T12:00:00.000Z',
+    ])
+    expect(validateLinearVestingEnd(tge + TEN_YEARS, tge)).to.have.length(1)
+    expect(validateLinearVestingEnd(tge + TEN_YEARS - 1, tge)).to.deep.equal([])
+  })
+
+  it('previews the daily linear unlocks rounded down like the contract', function () {
+    const curve = linearUnlockCurve(tge, tge + 3 * 86400, 1000)
+    expect(curve.map((p) => [p.time - tge, p.unlocked.toNumber()])).to.deep.equal([
+      [0, 0],
+      [86400, 333],
+      [2 * 86400, 666],
+      [3 * 86400, 1000],
+    ])
+    expect(formatUnlockCurve(curve, 2)).to.equal(
+      [
+        '2024-01-31T12:00:00.000Z 0 (0.00%)',
+        '2024-02-02T12:00:00.000Z 666 (66.60%)',
+        '2024-02-03T12:00:00.000Z 1000 (100.00%)',
+      ].join('\n')
+    )
+
+    // a partial last day still ends at the vesting end
+    const partial = linearUnlockCurve(tge, tge + 86400 + 3600, 100)
+    expect(partial.map((p) => p.time - tge)).to.deep.equal([0, 86400, 90000])
+  })
+})
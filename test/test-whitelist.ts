@@ -0,0 +1,153 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  buildAllocationWhitelist,
+  compareWhitelistRoots,
+  diffWhitelists,
+  formatRootChecks,
+  packWhitelistLeaf,
+  parseWhitelistEntries,
+  reducedAllocations,
+  verifyWhitelistProof,
+  WhitelistEntry,
+} from '../scripts/lib/whitelist'
+import { buildProofBundle, verifyProofBundle } from '../scripts/lib/proofBundle'
+import { computeMerkleRoot } from './merkleWhitelist'
+
+// deterministic test addresses
+const makeEntries = (count: number): WhitelistEntry[] => {
+  return Array.from({ length: count }, (_, i) => ({
+    address: ethers.utils.getAddress(
+      ethers.utils.hexDataSlice(ethers.utils.id(`wallet${i}`), 12)
+    ),
+    allocation: (i + 1) * 10,
+  }))
+}
+
+describe('Allocation whitelist', function () {
+  it('matches the root computed by the test helpers', function () {
+    const entries = makeEntries(7)
+    const whitelist = buildAllocationWhitelist(entries)
+    const leaves = entries.map((e) => packWhitelistLeaf(e.address, e.allocation))
+    expect(whitelist.root).to.equal(computeMerkleRoot(leaves))
+  })
+
+  it('returns a valid proof for every entry', function () {
+    for (const count of [1, 2, 3, 8, 13]) {
+      const entries = makeEntries(count)
+      const whitelist = buildAllocationWhitelist(entries)
+      entries.forEach((e) => {
+        const proof = whitelist.getProof(e.address)
+        expect(verifyWhitelistProof(whitelist.root, e.address, e.allocation, proof)).to.be.true
+        expect(verifyWhitelistProof(whitelist.root, e.address, 1, proof)).to.be.false
+      })
+    }
+  })
+
+  it('rejects duplicate and invalid addresses', function () {
+    const [entry] = makeEntries(1)
+    expect(() => buildAllocationWhitelist([entry, { ...entry, address: entry.address.toLowerCase() }]))
+      .to.throw('Duplicate address')
+    expect(() => buildAllocationWhitelist([{ address: '0x1234', allocation: 1 }]))
+      .to.throw('Invalid address')
+  })
+
+  it('parses the supported JSON layouts', function () {
+    const [a, b] = makeEntries(2)
+    expect(parseWhitelistEntries([a.address], 5)).to.deep.equal([{ address: a.address, allocation: 5 }])
+    expect(parseWhitelistEntries([a, b])).to.deep.equal([a, b])
+    expect(parseWhitelistEntries({ [a.address]: '10' })).to.deep.equal([{ address: a.address, allocation: '10' }])
+    expect(() => parseWhitelistEntries([a.address])).to.throw('No allocation')
+  })
+})
+
+describe('Whitelist diff', function () {
+  it('reports added, removed and changed entries', function () {
+    const [a, b, c, d] = makeEntries(4)
+    const oldWhitelist = buildAllocationWhitelist([a, b, c])
+    const newWhitelist = buildAllocationWhitelist([
+      { ...a, address: a.address.toLowerCase() },
+      { ...b, allocation: 1 },
+      { ...c, allocation: 1000 },
+      d,
+    ])
+    const diff = diffWhitelists(oldWhitelist, newWhitelist)
+    expect(diff.oldRoot).to.equal(oldWhitelist.root)
+    expect(diff.newRoot).to.equal(newWhitelist.root)
+    expect(diff.added).to.deep.equal([{ address: d.address.toLowerCase(), allocation: '40' }])
+    expect(diff.removed).to.be.empty
+    expect(diff.changed.map((change) => change.address)).to.deep.equal(
+      [b.address.toLowerCase(), c.address.toLowerCase()]
+    )
+    expect(reducedAllocations(diff)).to.deep.equal([
+      { address: b.address.toLowerCase(), from: '20', to: '1' },
+    ])
+  })
+
+  it('treats removed entries as reduced to zero', function () {
+    const [a, b] = makeEntries(2)
+    const diff = diffWhitelists(buildAllocationWhitelist([a, b]), buildAllocationWhitelist([a]))
+    expect(reducedAllocations(diff)).to.deep.equal([
+      { address: b.address.toLowerCase(), from: '20', to: '0' },
+    ])
+  })
+})
+
+describe('Whitelist root check', function () {
+  const root = buildAllocationWhitelist(makeEntries(3)).root
+  const otherRoot = buildAllocationWhitelist(makeEntries(4)).root
+
+  it('passes when every root matches', function () {
+    const checks = compareWhitelistRoots({ '': root }, { '': root.toUpperCase() })
+    expect(checks.map((c) => c.ok)).to.deep.equal([true])
+    expect(formatRootChecks(checks)).to.match(/^OK {7}sale local: /)
+  })
+
+  it('reports each tier that does not match', function () {
+    const checks = compareWhitelistRoots(
+      { a: root, b: root },
+      { a: root, b: otherRoot, public: ethers.constants.HashZero, c: root }
+    )
+    expect(checks.map((c) => [c.tierId, c.ok])).to.deep.equal([
+      ['a', true],
+      ['b', false],
+      ['public', true],
+      ['c', false], // no local file, expected to be public
+    ])
+    expect(formatRootChecks(checks).split('\n')[3]).to.equal(
+      `MISMATCH c local: (no file, expecting public) on-chain: ${root}`
+    )
+  })
+
+  it('reports a local file of a tier that is not on chain', function () {
+    const checks = compareWhitelistRoots({ a: root, gone: root }, { a: root })
+    expect(checks.map((c) => [c.tierId, c.ok])).to.deep.equal([
+      ['a', true],
+      ['gone', false],
+    ])
+    expect(formatRootChecks(checks).split('\n')[1]).to.equal(
+      'MISSING  gone has a local file but is not on chain'
+    )
+  })
+})
+
+describe('Proof bundle', function () {
+  it('keys entries by lowercase address and verifies', function () {
+    const entries = makeEntries(5)
+    const bundle = buildProofBundle(buildAllocationWhitelist(entries), 'tier1')
+    expect(bundle.tierId).to.equal('tier1')
+    expect(bundle.entryCount).to.equal(5)
+    expect(Object.keys(bundle.entries)).to.include(entries[0].address.toLowerCase())
+    expect(verifyProofBundle(bundle)).to.be.empty
+  })
+
+  it('detects tampered entries', function () {
+    const entries = makeEntries(3)
+    const bundle = buildProofBundle(buildAllocationWhitelist(entries))
+    const address = entries[0].address.toLowerCase()
+    bundle.entries[address] = { ...bundle.entries[address], allocation: '999' }
+    const errors = verifyProofBundle(bundle)
+    expect(errors).to.include('Content hash does not match entries')
+    expect(errors).to.include(`Invalid proof for ${address}`)
+  })
+})
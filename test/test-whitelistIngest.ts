@@ -0,0 +1,111 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  ingestWhitelist,
+  mergeDuplicates,
+  parseInlineWhitelist,
+  readWhitelistRows,
+  validateWhitelistRows,
+} from '../scripts/lib/whitelistIngest'
+
+const A = '0x1111111111111111111111111111111111111111'
+const B = '0x2222222222222222222222222222222222222222'
+const C = '0x3333333333333333333333333333333333333333'
+const CHECKSUMMED = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+
+describe('Whitelist ingestion', function () {
+  let dir: string
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name)
+    fs.writeFileSync(file, content)
+    return file
+  }
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'whitelist-'))
+  })
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads CSV with and without header', function () {
+    expect(readWhitelistRows(write('a.csv', `address,allocation\n${A},10\n${B},\n`)))
+      .to.deep.equal([
+        { address: A, allocation: '10', source: 'a.csv:2' },
+        { address: B, allocation: undefined, source: 'a.csv:3' },
+      ])
+    expect(readWhitelistRows(write('b.csv', `${A}\n`))[0].address).to.equal(A)
+  })
+
+  it('finds the address column of a CSV header by name', function () {
+    expect(readWhitelistRows(write('c.csv', `name,Allocation,Address\nalice,10,${A}\n`)))
+      .to.deep.equal([{ address: A, allocation: '10', source: 'c.csv:2' }])
+  })
+
+  it('validates checksums, zero address and allocations', function () {
+    const { entries, errors } = validateWhitelistRows([
+      { address: CHECKSUMMED, source: '1' },
+      { address: CHECKSUMMED.replace('a', 'A'), source: '2' },
+      { address: '0x0000000000000000000000000000000000000000', source: '3' },
+      { address: 'garbage', source: '4' },
+      { address: A, allocation: '-1', source: '5' },
+    ], '7')
+    expect(entries).to.deep.equal([{ address: CHECKSUMMED, allocation: '7' }])
+    expect(errors).to.have.length(4)
+  })
+
+  it('merges duplicates by policy', function () {
+    const entries = [
+      { address: A, allocation: '10' },
+      { address: A, allocation: '5' },
+    ]
+    expect(mergeDuplicates(entries, 'sum').entries).to.deep.equal([{ address: A, allocation: '15' }])
+    expect(mergeDuplicates(entries, 'max').entries).to.deep.equal([{ address: A, allocation: '10' }])
+    expect(() => mergeDuplicates(entries, 'error')).to.throw('Duplicate address')
+  })
+
+  it('combines lists with union, intersection and subtraction', function () {
+    const stakers = write('stakers.csv', `address,allocation\n${A},10\n${B},20\n`)
+    const more = write('more.json', JSON.stringify([{ address: C, allocation: 30 }]))
+    const kyc = write('kyc.json', JSON.stringify([A, B, B]))
+    const blocked = write('blocked.csv', `${B}\n`)
+
+    const { entries, report } = ingestWhitelist({
+      include: [stakers, more],
+      intersect: [kyc],
+      exclude: [blocked],
+    })
+    expect(entries).to.deep.equal([{ address: A, allocation: '10' }])
+    expect(report.steps.map((s) => s.count)).to.deep.equal([3, 2, 1])
+    expect(report.totalAllocation).to.equal('10')
+  })
+
+  it('reports every invalid row before failing', function () {
+    const bad = write('bad.csv', `garbage,1\n${A},x\n`)
+    expect(() => ingestWhitelist({ include: [bad] }))
+      .to.throw(/bad.csv:1: invalid address[\s\S]*bad.csv:2: invalid allocation/)
+  })
+
+  it('reports addresses shared by unioned lists', function () {
+    const first = write('first.csv', `${A},10\n${B},20\n`)
+    const second = write('second.json', JSON.stringify({ [A]: '5' }))
+    expect(() => ingestWhitelist({ include: [first, second] }))
+      .to.throw(`Duplicate address: ${A} in first.csv, second.json`)
+
+    const { entries, report } = ingestWhitelist({ include: [first, second], duplicates: 'sum' })
+    expect(entries).to.deep.include({ address: A, allocation: '15' })
+    expect(report.steps[0].step).to.equal('union of 2 list(s), 1 shared address(es) merged')
+  })
+
+  it('accepts inline lists', function () {
+    const { entries } = ingestWhitelist({
+      include: [{ name: 'WHITELIST', rows: parseInlineWhitelist(`${A},${B},`) }],
+      defaultAllocation: '1',
+    })
+    expect(entries).to.have.length(2)
+  })
+})